@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { disconnectAccount, LastSignInMethodError } from '@/lib/connected-accounts'
+
+// DELETE /api/account/connections/[id] - Unlink an OAuth account, keeping at least one way to sign in
+export const DELETE = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const disconnected = await disconnectAccount(session.user.id, id)
+
+  if (!disconnected) {
+    return NextResponse.json({ error: 'Account not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ message: 'Account disconnected' })
+}, {
+  errors: [[LastSignInMethodError, 400]],
+})
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { listConnectedAccounts } from '@/lib/connected-accounts'
+
+// GET /api/account/connections - The user's linked OAuth accounts and whether they have a password
+export const GET = withAuth(async (request, { session }) => {
+  const connections = await listConnectedAccounts(session.user.id)
+
+  if (!connections) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(connections)
+})
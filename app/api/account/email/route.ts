@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { EmailInUseError, IncorrectPasswordError, requestEmailChange } from '@/lib/account'
+import { changeEmailSchema } from '@/lib/validations'
+
+// POST /api/account/email - Send a confirmation link to a new address; the email changes once it's followed
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { email, currentPassword } = changeEmailSchema.parse(body)
+
+  await requestEmailChange(session.user.id, email, currentPassword)
+
+  return NextResponse.json({ message: `Confirmation link sent to ${email}` })
+}, {
+  errors: [[EmailInUseError, 409], [IncorrectPasswordError, 400]],
+})
@@ -0,0 +1,16 @@
+import { withAuth } from '@/lib/route-handler'
+import { exportAccountData } from '@/lib/account'
+
+// GET /api/account/export - Download everything stored for the account as JSON
+export const GET = withAuth(async (request, { session }) => {
+  const data = await exportAccountData(session.user.id)
+  const filename = `inspiro-account-${new Date().toISOString().slice(0, 10)}.json`
+
+  return new Response(JSON.stringify(data, null, 2), {
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    }
+  })
+})
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { changePassword, IncorrectPasswordError } from '@/lib/account'
+import { changePasswordSchema } from '@/lib/validations'
+
+// PUT /api/account/password - Change the password, or set a first one for OAuth-only users
+export const PUT = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { currentPassword, newPassword } = changePasswordSchema.parse(body)
+
+  await changePassword(session.user.id, currentPassword, newPassword)
+
+  return NextResponse.json({ message: 'Password updated' })
+}, {
+  errors: [[IncorrectPasswordError, 400]],
+})
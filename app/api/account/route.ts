@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { ConfirmationMismatchError, deleteAccount, getAccount, IncorrectPasswordError } from '@/lib/account'
+import { deleteAccountSchema } from '@/lib/validations'
+
+// GET /api/account - The signed-in user's email, verification and sign-in methods
+export const GET = withAuth(async (request, { session }) => {
+  const account = await getAccount(session.user.id)
+
+  if (!account) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(account)
+})
+
+// DELETE /api/account - Delete the account and everything in it
+export const DELETE = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { confirmEmail, currentPassword } = deleteAccountSchema.parse(body)
+
+  await deleteAccount(session.user.id, confirmEmail, currentPassword)
+
+  return NextResponse.json({ message: 'Account deleted' })
+}, {
+  errors: [[IncorrectPasswordError, 400], [ConfirmationMismatchError, 400]],
+})
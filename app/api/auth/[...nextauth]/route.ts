@@ -1,3 +1,35 @@
-import { GET, POST } from "@/lib/auth"
+import { NextRequest, NextResponse } from "next/server"
+import { GET, POST as handleAuthPost } from "@/lib/auth"
+import { checkLoginAllowed } from "@/lib/login-throttle"
+import { clientIp } from "@/lib/rate-limit"
 
-export { GET, POST }
+export { GET }
+
+// Password sign-ins are throttled here, before Auth.js checks the password.
+// The 429 body keeps the `url` next-auth/react reads its error `code` from.
+export async function POST(request: NextRequest) {
+  if (request.nextUrl.pathname.endsWith("/callback/credentials")) {
+    // Auth.js only reads credentials from a form body, so anything else
+    // (JSON, a truncated upload) can't sign in and is refused up front
+    const form = await request.clone().formData().catch(() => null)
+    if (!form) {
+      return NextResponse.json({ error: "Invalid form data" }, { status: 400 })
+    }
+
+    const email = form.get("email")
+    const check = await checkLoginAllowed(clientIp(request), typeof email === "string" ? email : "")
+
+    if (!check.allowed) {
+      const url = new URL("/auth/login", request.nextUrl.origin)
+      url.searchParams.set("error", "CredentialsSignin")
+      url.searchParams.set("code", check.reason)
+
+      return NextResponse.json(
+        { error: "Too many sign-in attempts", url: url.toString(), retryAfter: check.retryAfter },
+        { status: 429, headers: { "Retry-After": String(check.retryAfter) } }
+      )
+    }
+  }
+
+  return handleAuthPost(request)
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { withErrors } from '@/lib/route-handler'
+import { confirmEmailChange, EmailInUseError } from '@/lib/account'
+import { verifyEmailSchema } from '@/lib/validations'
+
+// POST /api/auth/confirm-email - Redeem an email change link. No session
+// needed: the link may be opened on another device.
+export const POST = withErrors(async (request) => {
+  const body = await request.json()
+  const { token } = verifyEmailSchema.parse(body)
+
+  const confirmed = await confirmEmailChange(token)
+
+  if (!confirmed) {
+    return NextResponse.json(
+      { error: 'This link is invalid or has expired' },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({ message: 'Email changed' })
+}, {
+  errors: [[EmailInUseError, 409]],
+})
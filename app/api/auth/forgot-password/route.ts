@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { withErrors } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { sendPasswordResetEmail } from '@/lib/auth-emails'
+import { clientIp, enforceRateLimit, normalizeEmail, RATE_LIMITS } from '@/lib/rate-limit'
+import { emailRequestSchema } from '@/lib/validations'
+
+// POST /api/auth/forgot-password - Email a password reset link. The response
+// is the same whether or not the account exists.
+export const POST = withErrors(async (request) => {
+  const body = await request.json()
+  const { email } = emailRequestSchema.parse(body)
+
+  // Limited per IP and per address, so one inbox can't be flooded from many IPs
+  await enforceRateLimit(RATE_LIMITS.emailLink, `email-link:ip:${clientIp(request)}`)
+  await enforceRateLimit(RATE_LIMITS.emailLink, `email-link:email:${normalizeEmail(email)}`)
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, name: true },
+  })
+
+  // OAuth-only users get a link too, which is how they add a password
+  if (user) {
+    await sendPasswordResetEmail(user)
+  }
+
+  return NextResponse.json({
+    message: 'If an account uses that address, a reset link is on its way',
+  })
+})
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server'
+import { withErrors } from '@/lib/route-handler'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { resetPasswordSchema } from '@/lib/validations'
+import { consumeToken, revokeTokens } from '@/lib/verification-tokens'
+
+// POST /api/auth/reset-password - Set a new password from a reset link
+export const POST = withErrors(async (request) => {
+  const body = await request.json()
+  const { token, password } = resetPasswordSchema.parse(body)
+
+  const subject = await consumeToken('reset-password', token)
+
+  if (!subject) {
+    return NextResponse.json(
+      { error: 'This link is invalid or has expired' },
+      { status: 400 }
+    )
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 10)
+
+  // Getting the link proves the address, so this also verifies it. Sessions
+  // signed in before the reset end.
+  const [{ count }] = await prisma.$transaction([
+    prisma.user.updateMany({
+      where: { id: subject.userId },
+      data: { password: hashedPassword, sessionVersion: { increment: 1 } },
+    }),
+    prisma.user.updateMany({
+      where: { id: subject.userId, emailVerified: null },
+      data: { emailVerified: new Date() },
+    }),
+  ])
+
+  if (count === 0) {
+    return NextResponse.json(
+      { error: 'This link is invalid or has expired' },
+      { status: 400 }
+    )
+  }
+
+  await revokeTokens('reset-password', subject.userId)
+
+  return NextResponse.json({ message: 'Password updated' })
+})
@@ -1,74 +1,72 @@
 import { NextResponse } from 'next/server'
+import { withErrors } from '@/lib/route-handler'
 import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
+import { sendVerificationEmail } from '@/lib/auth-emails'
+import { clientIp, enforceRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { passwordSchema } from '@/lib/validations'
 import { z } from 'zod'
 
 const signupSchema = z.object({
   email: z.string().email(),
-  password: z.string().min(6),
+  password: passwordSchema,
   name: z.string().optional(),
 })
 
-export async function POST(request: Request) {
-  try {
-    const body = await request.json()
-    const { email, password, name } = signupSchema.parse(body)
+export const POST = withErrors(async (request) => {
+  await enforceRateLimit(RATE_LIMITS.signup, `signup:ip:${clientIp(request)}`)
+
+  const body = await request.json()
+  const { email, password, name } = signupSchema.parse(body)
 
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { email },
-    })
+  // Check if user already exists
+  const existingUser = await prisma.user.findUnique({
+    where: { email },
+  })
 
-    if (existingUser) {
-      return NextResponse.json(
-        { error: 'User already exists' },
-        { status: 400 }
-      )
-    }
+  if (existingUser) {
+    return NextResponse.json(
+      { error: 'User already exists' },
+      { status: 400 }
+    )
+  }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 10)
+  // Hash password
+  const hashedPassword = await bcrypt.hash(password, 10)
 
-    // Create user with default preferences
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        preferences: {
-          create: {
-            rotationInterval: 30,
-            quoteSource: 'BOTH',
-            theme: 'SYSTEM',
-            showAuthor: true,
-            enableAnimations: true,
-            fontSize: 'MEDIUM',
-          }
+  // Create user with default preferences; password sign-in waits for the email to be verified
+  const user = await prisma.user.create({
+    data: {
+      email,
+      password: hashedPassword,
+      name,
+      preferences: {
+        create: {
+          rotationInterval: 30,
+          quoteSource: 'BOTH',
+          theme: 'SYSTEM',
+          showAuthor: true,
+          enableAnimations: true,
+          fontSize: 'MEDIUM',
         }
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-      },
-    })
+      }
+    },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+    },
+  })
 
-    return NextResponse.json(
-      { message: 'User created successfully', user },
-      { status: 201 }
-    )
+  // The account exists either way; a failed send can be retried from the verify page
+  try {
+    await sendVerificationEmail(user)
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid data', details: error.errors },
-        { status: 400 }
-      )
-    }
-    
-    console.error('Signup error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    console.error('Verification email error:', error)
   }
-}
+
+  return NextResponse.json(
+    { message: 'User created. Check your email to verify your address.', user },
+    { status: 201 }
+  )
+})
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { withErrors } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { sendVerificationEmail } from '@/lib/auth-emails'
+import { clientIp, enforceRateLimit, normalizeEmail, RATE_LIMITS } from '@/lib/rate-limit'
+import { emailRequestSchema } from '@/lib/validations'
+
+// POST /api/auth/verify-email/resend - Send a new verification link. The
+// response is the same whether or not the account exists.
+export const POST = withErrors(async (request) => {
+  const body = await request.json()
+  const { email } = emailRequestSchema.parse(body)
+
+  // Limited per IP and per address, so one inbox can't be flooded from many IPs
+  await enforceRateLimit(RATE_LIMITS.emailLink, `email-link:ip:${clientIp(request)}`)
+  await enforceRateLimit(RATE_LIMITS.emailLink, `email-link:email:${normalizeEmail(email)}`)
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, name: true, emailVerified: true },
+  })
+
+  if (user && !user.emailVerified) {
+    await sendVerificationEmail(user)
+  }
+
+  return NextResponse.json({
+    message: 'If that address is waiting for verification, a new link is on its way',
+  })
+})
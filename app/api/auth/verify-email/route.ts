@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { withErrors } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { verifyEmailSchema } from '@/lib/validations'
+import { consumeToken } from '@/lib/verification-tokens'
+
+// POST /api/auth/verify-email - Redeem a verification link
+export const POST = withErrors(async (request) => {
+  const body = await request.json()
+  const { token } = verifyEmailSchema.parse(body)
+
+  const subject = await consumeToken('verify-email', token)
+
+  // The address must still be the one the link was sent to
+  const { count } = subject?.email
+    ? await prisma.user.updateMany({
+        where: { id: subject.userId, email: subject.email },
+        data: { emailVerified: new Date() },
+      })
+    : { count: 0 }
+
+  if (count === 0) {
+    return NextResponse.json(
+      { error: 'This link is invalid or has expired' },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({ message: 'Email verified' })
+})
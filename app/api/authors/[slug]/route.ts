@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { getQuoteIds, getQuotesByIds } from '@/lib/quote-service'
+import { DEFAULT_QUOTE_SOURCES } from '@/lib/quote-scope'
+
+// GET /api/authors/[slug] - Author profile with the quotes the user can see
+export const GET = withAuth<{ slug: string }>(async (request, { params, session }) => {
+  const { slug } = await params
+
+  const author = await prisma.author.findUnique({
+    where: { slug },
+    select: {
+      id: true,
+      slug: true,
+      name: true,
+      aliases: true,
+      birthYear: true,
+      deathYear: true,
+      bio: true
+    }
+  })
+
+  if (!author) {
+    return NextResponse.json({ error: 'Author not found' }, { status: 404 })
+  }
+
+  const ids = await getQuoteIds({
+    sources: DEFAULT_QUOTE_SOURCES,
+    userId: session.user.id,
+    authorIds: [author.id]
+  })
+  const quotes = await getQuotesByIds(ids, session.user.id)
+
+  // Preloaded quotes first, then the user's own, each oldest first
+  quotes.sort((a, b) =>
+    Number(b.isPreloaded) - Number(a.isPreloaded) || a.createdAt.localeCompare(b.createdAt)
+  )
+
+  return NextResponse.json({ author, quotes })
+})
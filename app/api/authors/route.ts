@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { authorSummarySelect } from '@/lib/authors'
+import { visibleQuotesWhere } from '@/lib/quote-scope'
+import { authorsQuerySchema } from '@/lib/validations'
+
+// GET /api/authors - Cursor-paginated author index with quote counts
+export const GET = withAuth(async (request, { session }) => {
+  const { q, cursor, limit } = authorsQuerySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  )
+
+  // Authors whose quotes are all hidden from this user aren't listed
+  const whereClause: Prisma.AuthorWhereInput = {
+    quotes: { some: visibleQuotesWhere(session.user.id) },
+    ...(q && { name: { contains: q, mode: 'insensitive' } })
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const authors = await prisma.author.findMany({
+    where: whereClause,
+    select: {
+      ...authorSummarySelect,
+      _count: {
+        select: { quotes: { where: visibleQuotesWhere(session.user.id) } }
+      }
+    },
+    orderBy: [{ name: 'asc' }, { id: 'asc' }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  })
+
+  const hasMore = authors.length > limit
+  const page = hasMore ? authors.slice(0, limit) : authors
+
+  return NextResponse.json({
+    authors: page.map(({ _count, ...author }) => ({
+      ...author,
+      quoteCount: _count.quotes
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null
+  })
+})
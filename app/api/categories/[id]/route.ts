@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { visibleCategoriesWhere } from '@/lib/categories'
+import { updateCategorySchema } from '@/lib/validations'
+import { slugify } from '@/lib/utils'
+
+// PATCH /api/categories/[id] - Update one of the user's categories
+export const PATCH = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await prisma.category.findFirst({
+    where: { id, ...visibleCategoriesWhere(session.user.id) },
+  })
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+  }
+
+  if (existing.userId === null) {
+    return NextResponse.json(
+      { error: 'Built-in categories cannot be modified' },
+      { status: 403 }
+    )
+  }
+
+  const body = await request.json()
+  const data = updateCategorySchema.parse(body)
+  const slug = data.name ? slugify(data.name) : existing.slug
+
+  if (slug !== existing.slug) {
+    const conflict = await prisma.category.findFirst({
+      where: { slug, ...visibleCategoriesWhere(session.user.id) },
+    })
+
+    if (conflict) {
+      return NextResponse.json(
+        { error: 'Category already exists' },
+        { status: 409 }
+      )
+    }
+  }
+
+  const category = await prisma.category.update({
+    where: { id },
+    data: { ...data, slug },
+  })
+
+  return NextResponse.json({ ...category, isBuiltIn: false })
+})
+
+// DELETE /api/categories/[id] - Delete one of the user's categories
+export const DELETE = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await prisma.category.findFirst({
+    where: { id, ...visibleCategoriesWhere(session.user.id) },
+  })
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+  }
+
+  if (existing.userId === null) {
+    return NextResponse.json(
+      { error: 'Built-in categories cannot be deleted' },
+      { status: 403 }
+    )
+  }
+
+  // Quote assignments and preference selections are removed by the cascade
+  await prisma.category.delete({
+    where: { id },
+  })
+
+  return NextResponse.json({ message: 'Category deleted' })
+})
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { visibleCategoriesWhere } from '@/lib/categories'
+import { categorySchema } from '@/lib/validations'
+import { slugify } from '@/lib/utils'
+
+// GET /api/categories - List built-in categories and the user's own
+export const GET = withAuth(async (request, { session }) => {
+  const categories = await prisma.category.findMany({
+    where: visibleCategoriesWhere(session.user.id),
+    select: {
+      id: true,
+      slug: true,
+      name: true,
+      description: true,
+      color: true,
+      userId: true,
+    },
+    orderBy: { name: 'asc' },
+  })
+
+  return NextResponse.json(categories.map(({ userId, ...category }) => ({
+    ...category,
+    isBuiltIn: userId === null,
+  })))
+})
+
+// POST /api/categories - Create a custom category
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { name, description, color } = categorySchema.parse(body)
+  const slug = slugify(name)
+
+  // Slugs must not collide with a built-in or one of the user's categories
+  const existing = await prisma.category.findFirst({
+    where: { slug, ...visibleCategoriesWhere(session.user.id) },
+  })
+
+  if (existing) {
+    return NextResponse.json(
+      { error: 'Category already exists' },
+      { status: 409 }
+    )
+  }
+
+  const category = await prisma.category.create({
+    data: {
+      slug,
+      name,
+      description,
+      color,
+      userId: session.user.id,
+    },
+  })
+
+  return NextResponse.json({ ...category, isBuiltIn: false }, { status: 201 })
+})
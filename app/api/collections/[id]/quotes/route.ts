@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import {
+  addQuoteToCollection,
+  CollectionFullError,
+  findUserCollection,
+  InvalidOrderError,
+  removeQuoteFromCollection,
+  reorderCollection
+} from '@/lib/collections'
+import { visibleQuotesWhere } from '@/lib/quote-scope'
+import { collectionQuoteSchema, reorderCollectionSchema } from '@/lib/validations'
+
+// POST /api/collections/[id]/quotes - Add a quote to the end of a collection
+export const POST = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const collection = await findUserCollection(id, session.user.id)
+
+  if (!collection) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  const body = await request.json()
+  const { quoteId } = collectionQuoteSchema.parse(body)
+
+  const quote = await prisma.quote.findFirst({
+    where: { id: quoteId, ...visibleQuotesWhere(session.user.id) },
+    select: { id: true },
+  })
+
+  if (!quote) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  const added = await addQuoteToCollection(id, quoteId)
+
+  if (!added) {
+    return NextResponse.json(
+      { error: 'Quote already in collection' },
+      { status: 409 }
+    )
+  }
+
+  return NextResponse.json({ message: 'Quote added' }, { status: 201 })
+}, {
+  errors: [[CollectionFullError, 400]],
+})
+
+// PUT /api/collections/[id]/quotes - Save a new order (every quote ID, in order)
+export const PUT = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const collection = await findUserCollection(id, session.user.id)
+
+  if (!collection) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  const body = await request.json()
+  const { quoteIds } = reorderCollectionSchema.parse(body)
+
+  await reorderCollection(id, quoteIds)
+
+  return NextResponse.json({ message: 'Order saved' })
+}, {
+  errors: [[InvalidOrderError, 400]],
+})
+
+// DELETE /api/collections/[id]/quotes - Remove a quote from a collection
+export const DELETE = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const collection = await findUserCollection(id, session.user.id)
+
+  if (!collection) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  const body = await request.json()
+  const { quoteId } = collectionQuoteSchema.parse(body)
+
+  const removed = await removeQuoteFromCollection(id, quoteId)
+
+  if (!removed) {
+    return NextResponse.json({ error: 'Quote not in collection' }, { status: 404 })
+  }
+
+  return NextResponse.json({ message: 'Quote removed' })
+})
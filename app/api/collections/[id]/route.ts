@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import {
+  collectionSummarySelect,
+  findUserCollection,
+  formatCollection,
+  getCollectionQuotes
+} from '@/lib/collections'
+import { updateCollectionSchema } from '@/lib/validations'
+
+// GET /api/collections/[id] - A collection with its quotes in order
+export const GET = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const collection = await findUserCollection(id, session.user.id)
+
+  if (!collection) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  const [quotes, preferences] = await Promise.all([
+    getCollectionQuotes(id, session.user.id),
+    prisma.userPreferences.findUnique({
+      where: { userId: session.user.id },
+      select: { collectionId: true },
+    }),
+  ])
+
+  return NextResponse.json({
+    collection: {
+      ...formatCollection(collection),
+      isRotationSource: preferences?.collectionId === id,
+    },
+    quotes,
+  })
+})
+
+// PATCH /api/collections/[id] - Rename or describe a collection
+export const PATCH = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await findUserCollection(id, session.user.id)
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  const body = await request.json()
+  const data = updateCollectionSchema.parse(body)
+
+  const collection = await prisma.collection.update({
+    where: { id },
+    data,
+    select: collectionSummarySelect,
+  })
+
+  return NextResponse.json(formatCollection(collection))
+})
+
+// DELETE /api/collections/[id] - Delete a collection (its quotes are kept)
+export const DELETE = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await findUserCollection(id, session.user.id)
+
+  if (!existing) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  // Items go with the cascade; preferences rotating through it fall back to sources
+  await prisma.collection.delete({
+    where: { id },
+  })
+
+  return NextResponse.json({ message: 'Collection deleted' })
+})
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { collectionSummarySelect, formatCollection } from '@/lib/collections'
+import { collectionSchema } from '@/lib/validations'
+
+// GET /api/collections - List the user's collections, most recently changed first.
+// With `quoteId`, each one also says whether it holds that quote
+export const GET = withAuth(async (request, { session }) => {
+  const quoteId = request.nextUrl.searchParams.get('quoteId')
+
+  const [collections, holding] = await Promise.all([
+    prisma.collection.findMany({
+      where: { userId: session.user.id },
+      select: collectionSummarySelect,
+      orderBy: { updatedAt: 'desc' },
+    }),
+    quoteId
+      ? prisma.collectionItem.findMany({
+          where: { quoteId, collection: { userId: session.user.id } },
+          select: { collectionId: true },
+        })
+      : [],
+  ])
+  const holdingIds = new Set(holding.map(item => item.collectionId))
+
+  return NextResponse.json(collections.map(collection => ({
+    ...formatCollection(collection),
+    ...(quoteId && { hasQuote: holdingIds.has(collection.id) }),
+  })))
+})
+
+// POST /api/collections - Create a collection
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { name, description } = collectionSchema.parse(body)
+
+  const collection = await prisma.collection.create({
+    data: {
+      name,
+      description,
+      userId: session.user.id,
+    },
+    select: collectionSummarySelect,
+  })
+
+  return NextResponse.json(formatCollection(collection), { status: 201 })
+})
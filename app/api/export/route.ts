@@ -0,0 +1,53 @@
+import { withAuth } from '@/lib/route-handler'
+import { EXPORT_CONTENT_TYPES, renderExport } from '@/lib/quote-export'
+import { exportQuerySchema } from '@/lib/validations'
+
+// GET /api/export - Stream favorites and/or custom quotes as CSV, JSON, Markdown or printable HTML
+export const GET = withAuth(async (request, { session }) => {
+  const searchParams = request.nextUrl.searchParams
+  const { format, source, categoryIds, excludeIds, excludeCategoryIds } = exportQuerySchema.parse({
+    ...Object.fromEntries(searchParams),
+    categoryIds: searchParams.getAll('category'),
+    excludeIds: searchParams.getAll('exclude'),
+    excludeCategoryIds: searchParams.getAll('excludeCategory')
+  })
+
+  const chunks = renderExport(format, {
+    userId: session.user.id,
+    sources: source,
+    categoryIds,
+    excludeIds,
+    excludeCategoryIds
+  })
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(encoder.encode(value))
+        }
+      } catch (error) {
+        console.error('Export stream error:', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    }
+  })
+
+  // HTML opens in the browser so it can be printed or saved as PDF
+  const filename = `inspiro-${source.join('-').toLowerCase()}-${new Date().toISOString().slice(0, 10)}.${format}`
+  const disposition = format === 'html' ? 'inline' : 'attachment'
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `${disposition}; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    }
+  })
+})
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { auth } from '@/lib/auth'
+import { withAuth } from '@/lib/route-handler'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
 
@@ -8,128 +8,72 @@ const favoriteSchema = z.object({
 })
 
 // GET /api/favorites - Get user's favorite quotes
-export async function GET() {
-  try {
-    const session = await auth()
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+export const GET = withAuth(async (request, { session }) => {
+  const favorites = await prisma.favorite.findMany({
+    where: { userId: session.user.id },
+    include: {
+      quote: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  })
 
-    const favorites = await prisma.favorite.findMany({
-      where: { userId: session.user.id },
-      include: {
-        quote: true,
-      },
-      orderBy: { createdAt: 'desc' },
-    })
-
-    const favoriteQuotes = favorites.map(fav => ({
-      ...fav.quote,
-      isFavorited: true,
-      favoritedAt: fav.createdAt,
-    }))
+  const favoriteQuotes = favorites.map(fav => ({
+    ...fav.quote,
+    isFavorited: true,
+    favoritedAt: fav.createdAt,
+  }))
 
-    return NextResponse.json(favoriteQuotes)
-  } catch (error) {
-    console.error('Get favorites error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
+  return NextResponse.json(favoriteQuotes)
+})
 
 // POST /api/favorites - Add a quote to favorites
-export async function POST(request: Request) {
-  try {
-    const session = await auth()
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { quoteId } = favoriteSchema.parse(body)
 
-    const body = await request.json()
-    const { quoteId } = favoriteSchema.parse(body)
-
-    // Check if already favorited
-    const existing = await prisma.favorite.findUnique({
-      where: {
-        userId_quoteId: {
-          userId: session.user.id,
-          quoteId,
-        },
-      },
-    })
-
-    if (existing) {
-      return NextResponse.json(
-        { error: 'Quote already favorited' },
-        { status: 400 }
-      )
-    }
-
-    const favorite = await prisma.favorite.create({
-      data: {
+  // Check if already favorited
+  const existing = await prisma.favorite.findUnique({
+    where: {
+      userId_quoteId: {
         userId: session.user.id,
         quoteId,
       },
-      include: {
-        quote: true,
-      },
-    })
+    },
+  })
 
-    return NextResponse.json(favorite, { status: 201 })
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid data', details: error.errors },
-        { status: 400 }
-      )
-    }
-    
-    console.error('Add favorite error:', error)
+  if (existing) {
     return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+      { error: 'Quote already favorited' },
+      { status: 400 }
     )
   }
-}
 
-// DELETE /api/favorites - Remove a quote from favorites
-export async function DELETE(request: Request) {
-  try {
-    const session = await auth()
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
+  const favorite = await prisma.favorite.create({
+    data: {
+      userId: session.user.id,
+      quoteId,
+    },
+    include: {
+      quote: true,
+    },
+  })
 
-    const body = await request.json()
-    const { quoteId } = favoriteSchema.parse(body)
+  return NextResponse.json(favorite, { status: 201 })
+})
 
-    await prisma.favorite.delete({
-      where: {
-        userId_quoteId: {
-          userId: session.user.id,
-          quoteId,
-        },
+// DELETE /api/favorites - Remove a quote from favorites
+export const DELETE = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { quoteId } = favoriteSchema.parse(body)
+
+  await prisma.favorite.delete({
+    where: {
+      userId_quoteId: {
+        userId: session.user.id,
+        quoteId,
       },
-    })
+    },
+  })
 
-    return NextResponse.json({ message: 'Favorite removed' })
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid data', details: error.errors },
-        { status: 400 }
-      )
-    }
-    
-    console.error('Remove favorite error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
-  }
-}
+  return NextResponse.json({ message: 'Favorite removed' })
+})
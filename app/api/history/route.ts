@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { getQuotesByIds } from '@/lib/quote-service'
+import { recordView } from '@/lib/view-history'
+import { historyQuerySchema, recordViewSchema } from '@/lib/validations'
+
+// GET /api/history - Recently viewed quotes, newest first
+export const GET = withAuth(async (request, { session }) => {
+  const { cursor, limit } = historyQuerySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  )
+
+  // Fetch one extra row to know whether another page exists
+  const views = await prisma.quoteView.findMany({
+    where: { userId: session.user.id },
+    select: { id: true, quoteId: true, viewedAt: true },
+    orderBy: [{ viewedAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+  })
+
+  const hasMore = views.length > limit
+  const page = hasMore ? views.slice(0, limit) : views
+
+  const quotes = await getQuotesByIds([...new Set(page.map(v => v.quoteId))], session.user.id)
+  const quotesById = new Map(quotes.map(q => [q.id, q]))
+
+  return NextResponse.json({
+    views: page.flatMap(view => {
+      const quote = quotesById.get(view.quoteId)
+      return quote ? [{ id: view.id, viewedAt: view.viewedAt.toISOString(), quote }] : []
+    }),
+    nextCursor: hasMore ? page[page.length - 1].id : null
+  })
+})
+
+// POST /api/history - Record that the user was shown a quote
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { quoteId } = recordViewSchema.parse(body)
+
+  const recorded = await recordView(session.user.id, quoteId)
+  if (!recorded) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ message: 'View recorded' }, { status: 201 })
+})
+
+// DELETE /api/history - Clear the user's view history
+export const DELETE = withAuth(async (request, { session }) => {
+  const { count } = await prisma.quoteView.deleteMany({
+    where: { userId: session.user.id }
+  })
+
+  return NextResponse.json({ message: 'History cleared', deleted: count })
+})
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { bulkDeleteSchema, libraryQuerySchema } from '@/lib/validations'
+import { getCategoriesForQuotes } from '@/lib/categories'
+
+// Secondary sort on id keeps the cursor stable when timestamps or authors collide
+const orderings: Record<'newest' | 'oldest' | 'author', Prisma.QuoteOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: 'desc' }, { id: 'desc' }],
+  oldest: [{ createdAt: 'asc' }, { id: 'asc' }],
+  author: [{ author: 'asc' }, { id: 'asc' }],
+}
+
+// GET /api/library - Cursor-paginated list of the user's custom quotes
+export const GET = withAuth(async (request, { session }) => {
+  const { cursor, limit, sort, q } = libraryQuerySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  )
+
+  const whereClause: Prisma.QuoteWhereInput = {
+    userId: session.user.id,
+    isPreloaded: false,
+  }
+
+  if (q) {
+    whereClause.OR = [
+      { text: { contains: q, mode: 'insensitive' } },
+      { author: { contains: q, mode: 'insensitive' } },
+    ]
+  }
+
+  // Fetch one extra row to know whether another page exists
+  const [quotes, total] = await Promise.all([
+    prisma.quote.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        text: true,
+        author: true,
+        source: true,
+        isPreloaded: true,
+        createdAt: true,
+        updatedAt: true
+      },
+      orderBy: orderings[sort],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    }),
+    prisma.quote.count({ where: whereClause })
+  ])
+
+  const hasMore = quotes.length > limit
+  const page = hasMore ? quotes.slice(0, limit) : quotes
+
+  const pageIds = page.map(q => q.id)
+  const [favorites, categoriesByQuote] = await Promise.all([
+    prisma.favorite.findMany({
+      where: {
+        userId: session.user.id,
+        quoteId: { in: pageIds }
+      },
+      select: { quoteId: true }
+    }),
+    getCategoriesForQuotes(pageIds)
+  ])
+  const favoriteQuoteIds = new Set(favorites.map(f => f.quoteId))
+
+  return NextResponse.json({
+    quotes: page.map(quote => ({
+      ...quote,
+      createdAt: quote.createdAt.toISOString(),
+      updatedAt: quote.updatedAt.toISOString(),
+      categories: categoriesByQuote.get(quote.id) ?? [],
+      isFavorited: favoriteQuoteIds.has(quote.id)
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+    total
+  })
+})
+
+// DELETE /api/library - Bulk delete the user's custom quotes
+export const DELETE = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { ids } = bulkDeleteSchema.parse(body)
+
+  // Scoping by owner silently skips IDs that aren't the user's custom quotes
+  const { count } = await prisma.quote.deleteMany({
+    where: {
+      id: { in: ids },
+      userId: session.user.id,
+      isPreloaded: false,
+    },
+  })
+
+  return NextResponse.json({ message: 'Quotes deleted', deleted: count })
+})
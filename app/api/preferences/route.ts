@@ -1,95 +1,121 @@
 import { NextResponse } from 'next/server'
-import { auth } from '@/lib/auth'
+import { withAuth } from '@/lib/route-handler'
 import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import { filterVisibleCategoryIds } from '@/lib/categories'
+import { findUserCollection } from '@/lib/collections'
+import { isValidTimezone } from '@/lib/daily-quote'
+import { preferredSources, toSourceSet } from '@/lib/quote-scope'
+import { MAX_ROTATION_WEIGHT } from '@/lib/weighted-rotation'
+import { VIEW_RETENTION_DAYS } from '@/lib/view-history'
 
 const preferencesSchema = z.object({
   rotationInterval: z.number().min(10).max(86400).optional(),
-  quoteSource: z.enum(['PRELOADED', 'CUSTOM', 'BOTH']).optional(),
+  // Legacy single source; quoteSources takes precedence when both are sent
+  quoteSource: z.enum(['PRELOADED', 'CUSTOM', 'FAVORITES', 'BOTH']).optional(),
+  quoteSources: z.array(z.enum(['PRELOADED', 'CUSTOM', 'FAVORITES'])).min(1).max(3).optional(),
+  rotationStrategy: z.enum(['RANDOM', 'SHUFFLE', 'WEIGHTED', 'DAILY']).optional(),
   theme: z.enum(['LIGHT', 'DARK', 'SYSTEM']).optional(),
   showAuthor: z.boolean().optional(),
   enableAnimations: z.boolean().optional(),
   fontSize: z.enum(['SMALL', 'MEDIUM', 'LARGE', 'EXTRA_LARGE']).optional(),
+  categoryIds: z.array(z.string()).max(50).optional(),
+  // Rotate through one of the user's collections; null goes back to sources
+  collectionId: z.string().nullable().optional(),
+  // Null clears the zone so the browser's is used
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').nullable().optional(),
+  dailyRepeatWindow: z.number().int().min(0).max(3650).optional(),
+  viewHistoryDays: z.number().int().min(0).max(VIEW_RETENTION_DAYS).optional(),
+  // Rotation boosts; 1 turns a boost off
+  favoriteWeight: z.number().min(1).max(MAX_ROTATION_WEIGHT).optional(),
+  newQuoteWeight: z.number().min(1).max(MAX_ROTATION_WEIGHT).optional(),
+  unseenWeight: z.number().min(1).max(MAX_ROTATION_WEIGHT).optional(),
 })
 
-// GET /api/preferences - Get user preferences
-export async function GET() {
-  try {
-    const session = await auth()
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    let preferences = await prisma.userPreferences.findUnique({
-      where: { userId: session.user.id },
-    })
-
-    // Create default preferences if they don't exist
-    if (!preferences) {
-      preferences = await prisma.userPreferences.create({
-        data: {
-          userId: session.user.id,
-          rotationInterval: 30,
-          quoteSource: 'BOTH',
-          theme: 'SYSTEM',
-          showAuthor: true,
-          enableAnimations: true,
-          fontSize: 'MEDIUM',
-        },
-      })
-    }
+const preferencesInclude = {
+  categories: { select: { id: true } }
+}
 
-    return NextResponse.json(preferences)
-  } catch (error) {
-    console.error('Get preferences error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+// Flatten the category relation into a plain list of IDs for the client, and
+// report the effective source set even for rows saved with a single source
+function formatPreferences<T extends {
+  categories: { id: string }[]
+  quoteSource: string
+  quoteSources: string[]
+}>({ categories, ...preferences }: T) {
+  return {
+    ...preferences,
+    quoteSources: preferredSources(preferences),
+    categoryIds: categories.map(c => c.id),
   }
 }
 
-// PUT /api/preferences - Update user preferences
-export async function PUT(request: Request) {
-  try {
-    const session = await auth()
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    const body = await request.json()
-    const data = preferencesSchema.parse(body)
+// GET /api/preferences - Get user preferences
+export const GET = withAuth(async (request, { session }) => {
+  let preferences = await prisma.userPreferences.findUnique({
+    where: { userId: session.user.id },
+    include: preferencesInclude,
+  })
 
-    const preferences = await prisma.userPreferences.upsert({
-      where: { userId: session.user.id },
-      update: data,
-      create: {
-        ...data,
+  // Create default preferences if they don't exist
+  if (!preferences) {
+    preferences = await prisma.userPreferences.create({
+      data: {
         userId: session.user.id,
-        rotationInterval: data.rotationInterval || 30,
-        quoteSource: data.quoteSource || 'BOTH',
-        theme: data.theme || 'SYSTEM',
-        showAuthor: data.showAuthor ?? true,
-        enableAnimations: data.enableAnimations ?? true,
-        fontSize: data.fontSize || 'MEDIUM',
+        rotationInterval: 30,
+        quoteSource: 'BOTH',
+        theme: 'SYSTEM',
+        showAuthor: true,
+        enableAnimations: true,
+        fontSize: 'MEDIUM',
       },
+      include: preferencesInclude,
     })
+  }
+
+  return NextResponse.json(formatPreferences(preferences))
+})
+
+// PUT /api/preferences - Update user preferences
+export const PUT = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const { categoryIds, quoteSource, quoteSources, ...parsed } = preferencesSchema.parse(body)
 
-    return NextResponse.json(preferences)
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { error: 'Invalid data', details: error.errors },
-        { status: 400 }
-      )
-    }
-    
-    console.error('Update preferences error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+  // Sources are always stored as a set; the single value is only read for old rows
+  const sources = quoteSources ?? (quoteSource && [quoteSource])
+  const data = {
+    ...parsed,
+    ...(sources && { quoteSources: toSourceSet(sources) }),
   }
-}
+
+  if (data.collectionId && !(await findUserCollection(data.collectionId, session.user.id))) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 400 })
+  }
+
+  // A provided category list replaces the current selection
+  const categories = categoryIds
+    ? (await filterVisibleCategoryIds(categoryIds, session.user.id)).map(id => ({ id }))
+    : undefined
+
+  const preferences = await prisma.userPreferences.upsert({
+    where: { userId: session.user.id },
+    update: {
+      ...data,
+      ...(categories && { categories: { set: categories } }),
+    },
+    create: {
+      ...data,
+      ...(categories && { categories: { connect: categories } }),
+      userId: session.user.id,
+      rotationInterval: data.rotationInterval || 30,
+      quoteSource: 'BOTH',
+      theme: data.theme || 'SYSTEM',
+      showAuthor: data.showAuthor ?? true,
+      enableAnimations: data.enableAnimations ?? true,
+      fontSize: data.fontSize || 'MEDIUM',
+    },
+    include: preferencesInclude,
+  })
+
+  return NextResponse.json(formatPreferences(preferences))
+})
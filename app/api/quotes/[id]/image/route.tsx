@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { visibleQuotesWhere } from '@/lib/quote-scope'
+import { renderQuoteImage } from '@/lib/quote-image'
+import { quoteImageQuerySchema } from '@/lib/validations'
+import { slugify } from '@/lib/utils'
+
+// GET /api/quotes/[id]/image - PNG card of a quote in the user's theme and font size
+export const GET = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { format, theme, download } = quoteImageQuerySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  )
+
+  const { id } = await params
+  const [quote, preferences] = await Promise.all([
+    prisma.quote.findFirst({
+      where: { id, ...visibleQuotesWhere(session.user.id) },
+      select: { text: true, author: true },
+    }),
+    prisma.userPreferences.findUnique({
+      where: { userId: session.user.id },
+      select: { theme: true, fontSize: true, showAuthor: true },
+    }),
+  ])
+
+  if (!quote) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  // Author slugs can be non-Latin; headers only carry Latin-1, so those go in
+  // the RFC 5987 filename* with a plain ASCII name for older clients
+  const filename = `${slugify(quote.author) || 'quote'}-${format}.png`
+  const asciiFilename = /^[\x20-\x7e]+$/.test(filename) ? filename : `quote-${format}.png`
+
+  return renderQuoteImage(
+    quote,
+    {
+      format,
+      theme: theme ?? (preferences?.theme === 'DARK' ? 'dark' : 'light'),
+      fontSize: preferences?.fontSize ?? 'MEDIUM',
+      showAuthor: preferences?.showAuthor ?? true,
+    },
+    {
+      headers: {
+        'Cache-Control': 'private, no-cache',
+        ...(download && { 'Content-Disposition': `attachment; filename="${asciiFilename}"; filename*=UTF-8''${encodeURIComponent(filename)}` }),
+      },
+    }
+  )
+})
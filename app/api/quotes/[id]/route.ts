@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { getQuoteById } from '@/lib/quote-service'
+import { updateQuoteSchema } from '@/lib/validations'
+import { hashQuoteText } from '@/lib/duplicates'
+import { resolveAuthorId } from '@/lib/authors'
+import { filterVisibleCategoryIds } from '@/lib/categories'
+
+// Look up just enough of a quote to decide whether the user may see or change it
+async function findQuoteOwnership(id: string) {
+  return prisma.quote.findUnique({
+    where: { id },
+    select: { id: true, userId: true, isPreloaded: true }
+  })
+}
+
+// GET /api/quotes/[id] - Get a single quote
+export const GET = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await findQuoteOwnership(id)
+
+  // Other users' custom quotes are reported as missing rather than forbidden
+  if (!existing || (!existing.isPreloaded && existing.userId !== session.user.id)) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  const quote = await getQuoteById(id, session.user.id)
+
+  return NextResponse.json(quote)
+})
+
+// PATCH /api/quotes/[id] - Update one of the user's custom quotes
+export const PATCH = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await findQuoteOwnership(id)
+
+  if (!existing || (!existing.isPreloaded && existing.userId !== session.user.id)) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  if (existing.isPreloaded) {
+    return NextResponse.json(
+      { error: 'Preloaded quotes cannot be modified' },
+      { status: 403 }
+    )
+  }
+
+  const body = await request.json()
+  const { categoryIds, ...data } = updateQuoteSchema.parse(body)
+
+  // A provided category list replaces the existing assignments
+  const allowedCategoryIds = categoryIds
+    ? await filterVisibleCategoryIds(categoryIds, session.user.id)
+    : undefined
+
+  await prisma.quote.update({
+    where: { id },
+    data: {
+      ...data,
+      ...(data.text && { textHash: hashQuoteText(data.text) }),
+      ...(data.author && { authorId: await resolveAuthorId(data.author) }),
+      ...(allowedCategoryIds && {
+        categories: {
+          deleteMany: {},
+          create: allowedCategoryIds.map(categoryId => ({ categoryId }))
+        }
+      })
+    },
+  })
+
+  const quote = await getQuoteById(id, session.user.id)
+
+  return NextResponse.json(quote)
+})
+
+// DELETE /api/quotes/[id] - Delete one of the user's custom quotes
+export const DELETE = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const existing = await findQuoteOwnership(id)
+
+  if (!existing || (!existing.isPreloaded && existing.userId !== session.user.id)) {
+    return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+  }
+
+  if (existing.isPreloaded) {
+    return NextResponse.json(
+      { error: 'Preloaded quotes cannot be deleted' },
+      { status: 403 }
+    )
+  }
+
+  // Favorites pointing at this quote are removed by the cascade
+  await prisma.quote.delete({
+    where: { id },
+  })
+
+  return NextResponse.json({ message: 'Quote deleted' })
+})
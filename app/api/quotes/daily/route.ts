@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { getDailyQuote } from '@/lib/daily-quote'
+
+// GET /api/quotes/daily - The user's quote of the day (stable for the local calendar day)
+export const GET = withAuth(async (request, { session }) => {
+  // The browser's zone, used unless preferences pin one
+  const tz = request.nextUrl.searchParams.get('tz') ?? undefined
+  const daily = await getDailyQuote(session.user.id, tz)
+
+  return NextResponse.json(daily, {
+    headers: { 'Cache-Control': 'private, no-store' }
+  })
+})
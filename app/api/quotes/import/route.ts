@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { importRequestSchema } from '@/lib/validations'
+import { isBlockingDuplicate } from '@/lib/duplicates'
+import { buildImportPreview, commitImport, ImportParseError, parseImportContent } from '@/lib/quote-import'
+
+// POST /api/quotes/import - Preview or commit a bulk CSV/JSON import
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const data = importRequestSchema.parse(body)
+
+  if (data.action === 'preview') {
+    const rows = parseImportContent(data.format, data.content)
+    const preview = await buildImportPreview(rows, session.user.id)
+    return NextResponse.json(preview)
+  }
+
+  // Re-validate on the server; the client only sends back the rows it kept
+  const preview = await buildImportPreview(data.rows, session.user.id)
+  const invalidRows = preview.rows.filter(row => row.errors.length > 0)
+
+  if (invalidRows.length > 0) {
+    return NextResponse.json(
+      {
+        error: 'Some rows are invalid',
+        details: invalidRows.map(row => ({ index: row.index, errors: row.errors }))
+      },
+      { status: 400 }
+    )
+  }
+
+  // Exact duplicates are dropped even when the user ticked them
+  const accepted = preview.rows.filter(row => !isBlockingDuplicate(row.duplicate, !data.skipDuplicates))
+  const imported = accepted.length > 0
+    ? await commitImport(accepted, session.user.id)
+    : 0
+
+  return NextResponse.json(
+    { message: 'Quotes imported', imported, skipped: preview.rows.length - imported },
+    { status: 201 }
+  )
+}, {
+  errors: [[ImportParseError, 400]],
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { resolveQuoteScope } from '@/lib/quote-service'
+import { getNextShuffleBatch, InvalidCursorError } from '@/lib/shuffle-session'
+import { nextQuotesQuerySchema } from '@/lib/validations'
+
+// GET /api/quotes/next - Next batch of the user's server-side shuffle
+export const GET = withAuth(async (request, { session }) => {
+  const searchParams = request.nextUrl.searchParams
+  const { device, cursor, limit, restart, weighted, source, author, excludeIds, excludeCategoryIds } =
+    nextQuotesQuerySchema.parse({
+      ...Object.fromEntries(searchParams),
+      excludeIds: searchParams.getAll('exclude'),
+      excludeCategoryIds: searchParams.getAll('excludeCategory')
+    })
+
+  const scope = await resolveQuoteScope(session.user.id, {
+    sources: source,
+    categoryIds: searchParams.getAll('category'),
+    authorSlug: author,
+    excludeIds,
+    excludeCategoryIds
+  })
+
+  // Unknown author slug
+  if (!scope) {
+    return NextResponse.json({ quotes: [], cursor: null, position: 0, total: 0, reshuffled: false })
+  }
+
+  const batch = await getNextShuffleBatch({
+    deviceId: device,
+    scope,
+    cursor,
+    limit,
+    restart,
+    weighted
+  })
+
+  return NextResponse.json(batch)
+}, {
+  errors: [[InvalidCursorError, 400]],
+})
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { searchQuotes } from '@/lib/quote-service'
+import { preferredSources } from '@/lib/quote-scope'
+import { searchQuerySchema } from '@/lib/validations'
+
+// GET /api/quotes/search - Ranked full-text search with highlighted snippets
+export const GET = withAuth(async (request, { session }) => {
+  const searchParams = request.nextUrl.searchParams
+  const { q, source, categoryIds, limit } = searchQuerySchema.parse({
+    ...Object.fromEntries(searchParams),
+    categoryIds: searchParams.getAll('category')
+  })
+
+  // Fall back to the user's preferred sources, as GET /api/quotes does
+  const preferences = source ? null : await prisma.userPreferences.findUnique({
+    where: { userId: session.user.id },
+    select: { quoteSource: true, quoteSources: true }
+  })
+
+  const results = await searchQuotes({
+    query: q,
+    sources: source ?? preferredSources(preferences),
+    userId: session.user.id,
+    categoryIds,
+    limit
+  })
+
+  return NextResponse.json({
+    results,
+    total: results.length
+  })
+})
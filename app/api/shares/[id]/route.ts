@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { revokeShareLink } from '@/lib/share-links'
+
+// DELETE /api/shares/[id] - Revoke a share link; its page stops resolving
+export const DELETE = withAuth<{ id: string }>(async (request, { params, session }) => {
+  const { id } = await params
+  const revoked = await revokeShareLink(id, session.user.id)
+
+  if (!revoked) {
+    return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ message: 'Share link revoked' })
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/route-handler'
+import { prisma } from '@/lib/prisma'
+import { findUserCollection } from '@/lib/collections'
+import { visibleQuotesWhere } from '@/lib/quote-scope'
+import { formatShareLink, getOrCreateShareLink, shareLinkSelect } from '@/lib/share-links'
+import { shareLinkSchema } from '@/lib/validations'
+
+// GET /api/shares - List the user's active share links with their view counts
+export const GET = withAuth(async (request, { session }) => {
+  const links = await prisma.shareLink.findMany({
+    where: { userId: session.user.id, revokedAt: null },
+    select: shareLinkSelect,
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return NextResponse.json(links.map(formatShareLink))
+})
+
+// POST /api/shares - Share a quote or collection; returns the active link if there is one
+export const POST = withAuth(async (request, { session }) => {
+  const body = await request.json()
+  const target = shareLinkSchema.parse(body)
+
+  // Only quotes the user can see and collections they own
+  if ('quoteId' in target) {
+    const quote = await prisma.quote.findFirst({
+      where: { id: target.quoteId, ...visibleQuotesWhere(session.user.id) },
+      select: { id: true },
+    })
+
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+  } else if (!(await findUserCollection(target.collectionId, session.user.id))) {
+    return NextResponse.json({ error: 'Collection not found' }, { status: 404 })
+  }
+
+  const { link, created } = await getOrCreateShareLink(session.user.id, target)
+
+  return NextResponse.json(formatShareLink(link), { status: created ? 201 : 200 })
+})
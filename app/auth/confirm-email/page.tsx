@@ -0,0 +1,73 @@
+'use client'
+
+import { use, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Loader2 } from 'lucide-react'
+
+interface ConfirmEmailPageProps {
+  searchParams: Promise<{ token?: string }>
+}
+
+type ConfirmStatus = 'confirming' | 'confirmed' | 'failed'
+
+export default function ConfirmEmailPage({ searchParams }: ConfirmEmailPageProps) {
+  const { token } = use(searchParams)
+  const [status, setStatus] = useState<ConfirmStatus>(token ? 'confirming' : 'failed')
+  const [error, setError] = useState<string | null>(null)
+  const submitted = useRef(false)
+
+  // Redeemed from the page rather than on GET, so link scanners don't use it up
+  useEffect(() => {
+    if (!token || submitted.current) return
+    submitted.current = true
+
+    fetch('/api/auth/confirm-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(async response => {
+        if (response.ok) {
+          setStatus('confirmed')
+          return
+        }
+        const data = await response.json().catch(() => null)
+        setError(data?.error ?? null)
+        setStatus('failed')
+      })
+      .catch(() => setStatus('failed'))
+  }, [token])
+
+  const content: Record<ConfirmStatus, { title: string; description: string }> = {
+    confirming: { title: 'Confirming…', description: 'Switching your account to the new address.' },
+    confirmed: { title: 'Email changed', description: 'Sign in with your new address from now on.' },
+    failed: {
+      title: 'Couldn\'t change your email',
+      description: error ?? 'This link is invalid, already used or expired. Request a new one from your account settings.',
+    },
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">{content[status].title}</CardTitle>
+          <CardDescription className="text-center">{content[status].description}</CardDescription>
+        </CardHeader>
+        {status === 'confirming' ? (
+          <CardContent className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </CardContent>
+        ) : (
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link href="/settings/account">Go to account settings</Link>
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  )
+}
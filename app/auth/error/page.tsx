@@ -0,0 +1,36 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+
+// Auth.js redirects here with ?error=<code>
+const ERROR_MESSAGES: Record<string, string> = {
+  OAuthAccountNotLinked:
+    'An account with this email already exists. Sign in with your password (verifying your email first if you haven\'t), then connect this provider from Settings.',
+  AccessDenied: 'Sign-in was cancelled or not allowed.',
+  Configuration: 'Sign-in is misconfigured on the server. Please try again later.',
+}
+
+interface ErrorPageProps {
+  searchParams: Promise<{ error?: string }>
+}
+
+export default async function AuthErrorPage({ searchParams }: ErrorPageProps) {
+  const { error } = await searchParams
+  const message = (error && ERROR_MESSAGES[error]) ?? 'Something went wrong while signing you in. Please try again.'
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">Couldn&apos;t sign you in</CardTitle>
+          <CardDescription className="text-center">{message}</CardDescription>
+        </CardHeader>
+        <CardFooter>
+          <Button asChild className="w-full">
+            <Link href="/auth/login">Back to sign in</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  )
+}
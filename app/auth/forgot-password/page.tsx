@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import toast from 'react-hot-toast'
+import { Loader2 } from 'lucide-react'
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSent, setIsSent] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Something went wrong')
+      }
+
+      setIsSent(true)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send the reset link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">
+            {isSent ? 'Check your inbox' : 'Forgot your password?'}
+          </CardTitle>
+          <CardDescription className="text-center">
+            {isSent
+              ? `If an account uses ${email}, we've sent it a link to choose a new password. The link expires in 1 hour.`
+              : 'Enter your email and we\'ll send you a link to reset it'}
+          </CardDescription>
+        </CardHeader>
+        {isSent ? (
+          <CardFooter>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/auth/login">Back to sign in</Link>
+            </Button>
+          </CardFooter>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="demo@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-4">
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isLoading ? 'Sending...' : 'Send reset link'}
+              </Button>
+              <p className="text-sm text-center text-muted-foreground">
+                Remembered it?{' '}
+                <Link href="/auth/login" className="font-medium text-primary hover:underline">
+                  Sign in
+                </Link>
+              </p>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  )
+}
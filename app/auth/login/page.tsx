@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { use, useState } from 'react'
 import { signIn } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
@@ -8,10 +8,31 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { OAuthButtons } from '@/components/auth/oauth-buttons'
 import toast from 'react-hot-toast'
 import { Loader2 } from 'lucide-react'
 
-export default function LoginPage() {
+interface LoginPageProps {
+  searchParams: Promise<{ callbackUrl?: string }>
+}
+
+const CALLBACK_BASE = 'http://localhost'
+
+// Only same-site paths, so the link can't bounce the user to another site.
+// Resolved the way the browser would, so tricks like "/\evil.com" (which
+// browsers read as "//evil.com") land on another origin and are dropped.
+function safeCallbackUrl(callbackUrl: string | undefined): string {
+  if (!callbackUrl) return '/quotes'
+  try {
+    const url = new URL(callbackUrl, CALLBACK_BASE)
+    return url.origin === CALLBACK_BASE ? `${url.pathname}${url.search}${url.hash}` : '/quotes'
+  } catch {
+    return '/quotes'
+  }
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  const callbackUrl = safeCallbackUrl(use(searchParams).callbackUrl)
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [formData, setFormData] = useState({
@@ -30,11 +51,18 @@ export default function LoginPage() {
         redirect: false,
       })
 
-      if (result?.error) {
+      if (result?.code === 'email_not_verified') {
+        toast.error('Verify your email before signing in')
+        router.push(`/auth/verify-email?email=${encodeURIComponent(formData.email)}`)
+      } else if (result?.code === 'locked_out') {
+        toast.error('Too many failed attempts for this account. Try again later or reset your password.')
+      } else if (result?.code === 'rate_limited') {
+        toast.error('Too many sign-in attempts. Please wait a few minutes and try again.')
+      } else if (result?.error) {
         toast.error('Invalid email or password')
       } else {
         toast.success('Login successful!')
-        router.push('/quotes')
+        router.push(callbackUrl)
         router.refresh()
       }
     } catch {
@@ -67,7 +95,15 @@ export default function LoginPage() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  href="/auth/forgot-password"
+                  className="text-sm text-muted-foreground hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -86,6 +122,7 @@ export default function LoginPage() {
               {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {isLoading ? 'Signing in...' : 'Sign in'}
             </Button>
+            <OAuthButtons callbackUrl={callbackUrl} />
             <p className="text-sm text-center text-muted-foreground">
               Don&apos;t have an account?{' '}
               <Link
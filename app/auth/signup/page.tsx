@@ -1,13 +1,13 @@
 'use client'
 
 import { useState } from 'react'
-import { signIn } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { OAuthButtons } from '@/components/auth/oauth-buttons'
 import toast from 'react-hot-toast'
 import { Loader2 } from 'lucide-react'
 
@@ -39,22 +39,8 @@ export default function SignupPage() {
         throw new Error(data.error || 'Something went wrong')
       }
 
-      toast.success('Account created successfully!')
-      
-      // Sign in after successful signup
-      const result = await signIn('credentials', {
-        email: formData.email,
-        password: formData.password,
-        redirect: false,
-      })
-
-      if (result?.error) {
-        toast.error('Account created but failed to sign in. Please try signing in manually.')
-        router.push('/auth/login')
-      } else {
-        router.push('/quotes')
-        router.refresh()
-      }
+      toast.success('Account created! Check your email to verify it.')
+      router.push(`/auth/verify-email?email=${encodeURIComponent(formData.email)}`)
     } catch (error: unknown) {
       toast.error(error instanceof Error ? error.message : 'Failed to create account')
     } finally {
@@ -117,6 +103,7 @@ export default function SignupPage() {
               {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {isLoading ? 'Creating account...' : 'Create account'}
             </Button>
+            <OAuthButtons callbackUrl="/quotes" />
             <p className="text-sm text-center text-muted-foreground">
               Already have an account?{' '}
               <Link
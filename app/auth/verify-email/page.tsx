@@ -0,0 +1,123 @@
+'use client'
+
+import { use, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import toast from 'react-hot-toast'
+import { Loader2 } from 'lucide-react'
+
+interface VerifyEmailPageProps {
+  searchParams: Promise<{ token?: string; email?: string }>
+}
+
+type VerifyStatus = 'pending' | 'verifying' | 'verified' | 'failed'
+
+export default function VerifyEmailPage({ searchParams }: VerifyEmailPageProps) {
+  const { token, email: initialEmail } = use(searchParams)
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'pending')
+  const [email, setEmail] = useState(initialEmail ?? '')
+  const [isResending, setIsResending] = useState(false)
+  const submitted = useRef(false)
+
+  // Redeemed from the page rather than on GET, so link scanners don't use it up
+  useEffect(() => {
+    if (!token || submitted.current) return
+    submitted.current = true
+
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then(response => setStatus(response.ok ? 'verified' : 'failed'))
+      .catch(() => setStatus('failed'))
+  }, [token])
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsResending(true)
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Something went wrong')
+      }
+
+      toast.success(data.message)
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send the link')
+    } finally {
+      setIsResending(false)
+    }
+  }
+
+  const content: Record<VerifyStatus, { title: string; description: string }> = {
+    pending: {
+      title: 'Check your inbox',
+      description: initialEmail
+        ? `We sent a verification link to ${initialEmail}. Follow it to finish setting up your account.`
+        : 'Follow the link in your verification email to finish setting up your account.',
+    },
+    verifying: { title: 'Verifying…', description: 'Confirming your email address.' },
+    verified: { title: 'Email verified', description: 'You can sign in now.' },
+    failed: {
+      title: 'Link expired',
+      description: 'This verification link is invalid, already used or expired. Request a new one below.',
+    },
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl text-center">{content[status].title}</CardTitle>
+          <CardDescription className="text-center">{content[status].description}</CardDescription>
+        </CardHeader>
+        {status === 'verifying' && (
+          <CardContent className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </CardContent>
+        )}
+        {status === 'verified' && (
+          <CardFooter>
+            <Button asChild className="w-full">
+              <Link href="/auth/login">Sign in</Link>
+            </Button>
+          </CardFooter>
+        )}
+        {(status === 'pending' || status === 'failed') && (
+          <form onSubmit={handleResend}>
+            <CardContent className="space-y-2">
+              <Label htmlFor="email">Didn&apos;t get it? Send a new link to</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </CardContent>
+            <CardFooter className="flex flex-col space-y-4">
+              <Button type="submit" variant="outline" className="w-full" disabled={isResending}>
+                {isResending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Resend verification email
+              </Button>
+              <Link href="/auth/login" className="text-sm font-medium text-primary hover:underline">
+                Back to sign in
+              </Link>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { ArrowLeft, Heart } from 'lucide-react'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CategoryBadge, type Category } from '@/components/quotes/category-picker'
+import { formatLifespan } from '@/lib/author-names'
+
+interface AuthorQuote {
+  id: string
+  text: string
+  source?: string | null
+  isPreloaded: boolean
+  isFavorited: boolean
+  categories: Category[]
+}
+
+interface AuthorResponse {
+  author: {
+    id: string
+    slug: string
+    name: string
+    aliases: string[]
+    birthYear: number | null
+    deathYear: number | null
+    bio: string | null
+  }
+  quotes: AuthorQuote[]
+}
+
+export default function AuthorPage() {
+  const { slug } = useParams<{ slug: string }>()
+  const { data: session, status } = useSession()
+  const queryClient = useQueryClient()
+
+  const { data, isLoading, error } = useQuery<AuthorResponse>({
+    queryKey: ['author', slug],
+    queryFn: async () => {
+      const response = await fetch(`/api/authors/${slug}`)
+      if (response.status === 404) {
+        throw new Error('Author not found')
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch author')
+      }
+      return response.json()
+    },
+    enabled: !!session,
+  })
+
+  // Toggle favorite mutation
+  const toggleFavorite = useMutation({
+    mutationFn: async ({ quoteId, isFavorited }: { quoteId: string; isFavorited: boolean }) => {
+      const response = isFavorited
+        ? await fetch(`/api/favorites?quoteId=${quoteId}`, { method: 'DELETE' })
+        : await fetch('/api/favorites', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ quoteId }),
+          })
+      if (!response.ok) {
+        throw new Error('Failed to update favorite')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['author', slug] })
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+    },
+    onError: () => {
+      toast.error('Failed to update favorite')
+    },
+  })
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  const author = data?.author
+  const lifespan = author ? formatLifespan(author.birthYear, author.deathYear) : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/authors">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              All Authors
+            </Button>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          </div>
+        ) : error || !author ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-gray-600 dark:text-gray-400">
+                {error?.message ?? 'Author not found'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-3xl">{author.name}</CardTitle>
+                {lifespan && (
+                  <p className="text-gray-500 dark:text-gray-400">{lifespan}</p>
+                )}
+              </CardHeader>
+              {(author.bio || author.aliases.length > 0) && (
+                <CardContent className="space-y-2">
+                  {author.bio && (
+                    <p className="text-gray-700 dark:text-gray-300">{author.bio}</p>
+                  )}
+                  {author.aliases.length > 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Also attributed as: {author.aliases.join(', ')}
+                    </p>
+                  )}
+                </CardContent>
+              )}
+            </Card>
+
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-white mb-3">
+              {data.quotes.length} quote{data.quotes.length === 1 ? '' : 's'}
+            </h2>
+
+            <div className="space-y-3">
+              {data.quotes.map(quote => (
+                <Card key={quote.id}>
+                  <CardContent className="p-4 flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <blockquote className="text-gray-800 dark:text-gray-200">
+                        &ldquo;{quote.text}&rdquo;
+                      </blockquote>
+                      {quote.source && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{quote.source}</p>
+                      )}
+                      {(quote.categories.length > 0 || !quote.isPreloaded) && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {!quote.isPreloaded && (
+                            <span className="rounded-full border px-2 py-0.5 text-xs text-gray-600 dark:text-gray-300">
+                              My quote
+                            </span>
+                          )}
+                          {quote.categories.map(category => (
+                            <CategoryBadge key={category.id} category={category} />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={quote.isFavorited ? 'Remove from favorites' : 'Add to favorites'}
+                      onClick={() => toggleFavorite.mutate({ quoteId: quote.id, isFavorited: quote.isFavorited })}
+                      disabled={toggleFavorite.isPending}
+                    >
+                      <Heart className={`h-4 w-4 ${quote.isFavorited ? 'fill-red-500 text-red-500' : ''}`} />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
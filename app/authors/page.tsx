@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { useDebounce } from 'react-use'
+import Link from 'next/link'
+import { ArrowLeft, Search } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { formatLifespan } from '@/lib/author-names'
+
+interface AuthorSummary {
+  id: string
+  slug: string
+  name: string
+  birthYear: number | null
+  deathYear: number | null
+  quoteCount: number
+}
+
+interface AuthorsResponse {
+  authors: AuthorSummary[]
+  nextCursor: string | null
+}
+
+export default function AuthorsPage() {
+  const { data: session, status } = useSession()
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+
+  useDebounce(() => setDebouncedSearch(search.trim()), 300, [search])
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<AuthorsResponse>({
+    queryKey: ['authors', debouncedSearch],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: '60' })
+      if (debouncedSearch) params.set('q', debouncedSearch)
+      if (pageParam) params.set('cursor', pageParam as string)
+
+      const response = await fetch(`/api/authors?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch authors')
+      }
+      return response.json()
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!session,
+  })
+
+  const authors = data?.pages.flatMap(page => page.authors) ?? []
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/quotes">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Quotes
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
+            Authors
+          </h1>
+        </div>
+
+        <div className="relative mb-6">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search authors..."
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          </div>
+        ) : authors.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-gray-600 dark:text-gray-400">
+                {debouncedSearch ? 'No authors match your search.' : 'No authors yet.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+            {authors.map(author => {
+              const lifespan = formatLifespan(author.birthYear, author.deathYear)
+              return (
+                <Link key={author.id} href={`/authors/${author.slug}`}>
+                  <Card className="h-full hover:shadow-md transition-shadow">
+                    <CardContent className="p-4">
+                      <p className="font-semibold text-gray-800 dark:text-white">{author.name}</p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {lifespan && `${lifespan} · `}
+                        {author.quoteCount} quote{author.quoteCount === 1 ? '' : 's'}
+                      </p>
+                    </CardContent>
+                  </Card>
+                </Link>
+              )
+            })}
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { getSharedCollection, recordShareView } from '@/lib/share-links'
+import { truncateText } from '@/lib/utils'
+
+// Revocations and view counts must apply on every request
+export const dynamic = 'force-dynamic'
+
+interface PageProps {
+  params: Promise<{ shareId: string }>
+}
+
+// Metadata and the page look the link up once per request
+const loadSharedCollection = cache(getSharedCollection)
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { shareId } = await params
+  const shared = await loadSharedCollection(shareId)
+  if (!shared) return { title: 'Collection not found' }
+
+  const { collection, quotes } = shared
+  const title = `${collection.name} — ${quotes.length} quote${quotes.length === 1 ? '' : 's'}`
+  const description = truncateText(
+    collection.description || (quotes[0] ? `“${quotes[0].text}” — ${quotes[0].author}` : 'A collection of quotes'),
+    200
+  )
+
+  return {
+    title,
+    description,
+    robots: { index: false },
+    openGraph: {
+      type: 'website',
+      title,
+      description,
+      url: `/c/${shareId}`,
+      siteName: 'Inspiro',
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description,
+    },
+  }
+}
+
+// Public page; no session needed
+export default async function SharedCollectionPage({ params }: PageProps) {
+  const { shareId } = await params
+  const shared = await loadSharedCollection(shareId)
+
+  if (!shared) {
+    notFound()
+  }
+
+  await recordShareView(shared.linkId)
+  const { collection, quotes } = shared
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-3xl">{collection.name}</CardTitle>
+            <p className="text-gray-500 dark:text-gray-400">
+              {quotes.length} quote{quotes.length === 1 ? '' : 's'}
+            </p>
+          </CardHeader>
+          {collection.description && (
+            <CardContent>
+              <p className="text-gray-700 dark:text-gray-300">{collection.description}</p>
+            </CardContent>
+          )}
+        </Card>
+
+        <div className="space-y-3">
+          {quotes.map(quote => (
+            <Card key={quote.id}>
+              <CardContent className="p-4">
+                <blockquote className="text-gray-800 dark:text-gray-200">
+                  &ldquo;{quote.text}&rdquo;
+                </blockquote>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  — {quote.author}
+                  {quote.source && `, ${quote.source}`}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="text-center space-y-3 pb-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Shared with you from Inspiro
+          </p>
+          <Link href="/auth/signup">
+            <Button variant="outline">Start your own collections</Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,404 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { ArrowDown, ArrowLeft, ArrowUp, GripVertical, Pencil, Repeat, X } from 'lucide-react'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { CategoryBadge, type Category } from '@/components/quotes/category-picker'
+import type { Collection } from '@/components/quotes/add-to-collection-dialog'
+import { ShareButton } from '@/components/quotes/share-button'
+
+interface CollectionQuote {
+  id: string
+  text: string
+  author: string
+  authorSlug: string | null
+  isPreloaded: boolean
+  categories: Category[]
+}
+
+interface CollectionResponse {
+  collection: Collection & { isRotationSource: boolean }
+  quotes: CollectionQuote[]
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>()
+  const { data: session, status } = useSession()
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<{ name: string; description: string } | null>(null)
+  // While dragging, the order on screen; saved when the drag ends
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null)
+
+  const { data, isLoading, error } = useQuery<CollectionResponse>({
+    queryKey: ['collection', id],
+    queryFn: async () => {
+      const response = await fetch(`/api/collections/${id}`)
+      if (response.status === 404) {
+        throw new Error('Collection not found')
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch collection')
+      }
+      return response.json()
+    },
+    enabled: !!session,
+  })
+
+  const quotes = data?.quotes ?? []
+  const byId = new Map(quotes.map(quote => [quote.id, quote]))
+  const ordered = dragOrder
+    ? dragOrder.flatMap(quoteId => byId.get(quoteId) ?? [])
+    : quotes
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['collection', id] })
+    queryClient.invalidateQueries({ queryKey: ['collections'] })
+  }
+
+  // Save a new order, showing it right away
+  const saveOrder = useMutation({
+    mutationFn: async (quoteIds: string[]) => {
+      const response = await fetch(`/api/collections/${id}/quotes`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteIds }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to save order')
+      }
+    },
+    onMutate: (quoteIds) => {
+      queryClient.setQueryData<CollectionResponse>(['collection', id], previous => previous && {
+        ...previous,
+        quotes: quoteIds.flatMap(quoteId => previous.quotes.find(quote => quote.id === quoteId) ?? []),
+      })
+    },
+    onError: () => {
+      invalidate()
+      toast.error('Failed to save order')
+    },
+  })
+
+  // Remove quote mutation
+  const removeQuote = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const response = await fetch(`/api/collections/${id}/quotes`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to remove quote')
+      }
+    },
+    onSuccess: invalidate,
+    onError: () => {
+      toast.error('Failed to remove quote')
+    },
+  })
+
+  // Rename mutation
+  const updateCollection = useMutation({
+    mutationFn: async (changes: { name: string; description: string | null }) => {
+      const response = await fetch(`/api/collections/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update collection')
+      }
+    },
+    onSuccess: () => {
+      invalidate()
+      setEditing(null)
+      toast.success('Collection updated')
+    },
+    onError: () => {
+      toast.error('Failed to update collection')
+    },
+  })
+
+  // Make this collection the rotation source, or go back to sources
+  const setRotationSource = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await fetch('/api/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ collectionId: enabled ? id : null }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update preferences')
+      }
+      return enabled
+    },
+    onSuccess: (enabled) => {
+      queryClient.invalidateQueries({ queryKey: ['collection', id] })
+      queryClient.invalidateQueries({ queryKey: ['preferences'] })
+      queryClient.invalidateQueries({ queryKey: ['daily-quote'] })
+      toast.success(enabled ? 'Rotation now plays this collection' : 'Rotation uses your quote sources again')
+    },
+    onError: () => {
+      toast.error('Failed to update preferences')
+    },
+  })
+
+  const handleDragStart = (e: React.DragEvent, quoteId: string) => {
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', quoteId)
+    setDraggingId(quoteId)
+    setDragOrder(quotes.map(quote => quote.id))
+  }
+
+  const handleDragOver = (e: React.DragEvent, overId: string) => {
+    if (!draggingId) return
+    e.preventDefault()
+    if (overId === draggingId) return
+    setDragOrder(prev => prev && moveItem(prev, prev.indexOf(draggingId), prev.indexOf(overId)))
+  }
+
+  const handleDragEnd = () => {
+    const changed = dragOrder?.some((quoteId, index) => quotes[index]?.id !== quoteId)
+    if (dragOrder && changed) {
+      saveOrder.mutate(dragOrder)
+    }
+    setDraggingId(null)
+    setDragOrder(null)
+  }
+
+  // Buttons for keyboard and touch, where dragging isn't available
+  const moveBy = (index: number, offset: number) => {
+    saveOrder.mutate(moveItem(quotes.map(quote => quote.id), index, index + offset))
+  }
+
+  const handleSaveEdit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    if (!editing.name.trim()) {
+      toast.error('Collection name is required')
+      return
+    }
+    updateCollection.mutate({
+      name: editing.name.trim(),
+      description: editing.description.trim() || null,
+    })
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  const collection = data?.collection
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/collections">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              All Collections
+            </Button>
+          </Link>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          </div>
+        ) : error || !collection ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-gray-600 dark:text-gray-400">
+                {error?.message ?? 'Collection not found'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="mb-6">
+              {editing ? (
+                <CardContent className="pt-6">
+                  <form onSubmit={handleSaveEdit} className="space-y-3">
+                    <div>
+                      <Label htmlFor="collection-name">Name</Label>
+                      <Input
+                        id="collection-name"
+                        value={editing.name}
+                        onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                        maxLength={80}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="collection-description">Description (optional)</Label>
+                      <Textarea
+                        id="collection-description"
+                        value={editing.description}
+                        onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                        maxLength={300}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button type="submit" size="sm" disabled={updateCollection.isPending}>
+                        {updateCollection.isPending ? 'Saving...' : 'Save'}
+                      </Button>
+                      <Button type="button" size="sm" variant="outline" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              ) : (
+                <>
+                  <CardHeader className="flex flex-row items-start gap-2 space-y-0">
+                    <CardTitle className="text-3xl flex-1">{collection.name}</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Edit collection"
+                      onClick={() => setEditing({ name: collection.name, description: collection.description ?? '' })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {collection.description && (
+                      <p className="text-gray-700 dark:text-gray-300">{collection.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant={collection.isRotationSource ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setRotationSource.mutate(!collection.isRotationSource)}
+                        disabled={setRotationSource.isPending}
+                      >
+                        <Repeat className="h-4 w-4 mr-2" />
+                        {collection.isRotationSource ? 'Playing in rotation' : 'Play in rotation'}
+                      </Button>
+                      <ShareButton target={{ collectionId: collection.id }} variant="outline" size="sm" />
+                    </div>
+                  </CardContent>
+                </>
+              )}
+            </Card>
+
+            <h2 className="text-lg font-semibold text-gray-800 dark:text-white mb-3">
+              {quotes.length} quote{quotes.length === 1 ? '' : 's'}
+              {quotes.length > 1 && (
+                <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                  Drag to reorder
+                </span>
+              )}
+            </h2>
+
+            {quotes.length === 0 ? (
+              <Card className="text-center py-12">
+                <CardContent>
+                  <p className="text-gray-600 dark:text-gray-400">
+                    Use Collect on the quotes page to add quotes here.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {ordered.map((quote, index) => (
+                  <Card
+                    key={quote.id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, quote.id)}
+                    onDragOver={(e) => handleDragOver(e, quote.id)}
+                    onDrop={(e) => e.preventDefault()}
+                    onDragEnd={handleDragEnd}
+                    className={draggingId === quote.id ? 'opacity-50' : undefined}
+                  >
+                    <CardContent className="p-4 flex items-start gap-3">
+                      <GripVertical className="h-5 w-5 mt-0.5 text-gray-400 cursor-grab shrink-0" aria-hidden />
+                      <div className="flex-1 min-w-0">
+                        <blockquote className="text-gray-800 dark:text-gray-200">
+                          &ldquo;{quote.text}&rdquo;
+                        </blockquote>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                          —{' '}
+                          {quote.authorSlug ? (
+                            <Link href={`/authors/${quote.authorSlug}`} className="hover:underline">
+                              {quote.author}
+                            </Link>
+                          ) : (
+                            quote.author
+                          )}
+                        </p>
+                        {quote.categories.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {quote.categories.map(category => (
+                              <CategoryBadge key={category.id} category={category} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-start">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Move up"
+                          onClick={() => moveBy(index, -1)}
+                          disabled={index === 0 || saveOrder.isPending}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Move down"
+                          onClick={() => moveBy(index, 1)}
+                          disabled={index === ordered.length - 1 || saveOrder.isPending}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Remove from collection"
+                          onClick={() => removeQuote.mutate(quote.id)}
+                          disabled={removeQuote.isPending}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { ArrowLeft, FolderHeart, Plus, Trash2 } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useCollections } from '@/components/quotes/add-to-collection-dialog'
+
+export default function CollectionsPage() {
+  const { data: session, status } = useSession()
+  const queryClient = useQueryClient()
+  const [newName, setNewName] = useState('')
+  const { data: collections, isLoading } = useCollections(!!session)
+
+  // Create collection mutation
+  const createCollection = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to create collection')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['collections'] })
+      setNewName('')
+      toast.success('Collection created')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  // Delete collection mutation
+  const deleteCollection = useMutation({
+    mutationFn: async (collectionId: string) => {
+      const response = await fetch(`/api/collections/${collectionId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete collection')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['collections'] })
+      // Rotation may have been using it
+      queryClient.invalidateQueries({ queryKey: ['preferences'] })
+      toast.success('Collection deleted')
+    },
+    onError: () => {
+      toast.error('Failed to delete collection')
+    },
+  })
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) {
+      toast.error('Collection name is required')
+      return
+    }
+    createCollection.mutate(newName.trim())
+  }
+
+  const handleDelete = (collectionId: string, name: string) => {
+    if (window.confirm(`Delete "${name}"? The quotes themselves are kept.`)) {
+      deleteCollection.mutate(collectionId)
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/quotes">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Quotes
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
+            Collections
+          </h1>
+        </div>
+
+        {/* New collection */}
+        <form onSubmit={handleCreate} className="flex gap-2 mb-6">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name a new collection, e.g. Morning motivation"
+            maxLength={80}
+          />
+          <Button type="submit" disabled={createCollection.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+        </form>
+
+        {/* Collection list */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          </div>
+        ) : !collections?.length ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-xl font-semibold mb-4">No collections yet</h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                Create one above, or use Collect on any quote to start a playlist.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {collections.map(collection => (
+              <Card key={collection.id}>
+                <CardContent className="p-4 flex items-center gap-3">
+                  <FolderHeart className="h-5 w-5 text-gray-400 shrink-0" />
+                  <Link href={`/collections/${collection.id}`} className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-800 dark:text-white hover:underline truncate">
+                      {collection.name}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                      {collection.quoteCount} quote{collection.quoteCount === 1 ? '' : 's'}
+                      {collection.description && ` • ${collection.description}`}
+                    </p>
+                  </Link>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete ${collection.name}`}
+                    onClick={() => handleDelete(collection.id, collection.name)}
+                    disabled={deleteCollection.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
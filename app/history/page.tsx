@@ -0,0 +1,220 @@
+'use client'
+
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { ArrowLeft, Heart, Trash2 } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CategoryBadge, type Category } from '@/components/quotes/category-picker'
+
+interface HistoryEntry {
+  id: string
+  viewedAt: string
+  quote: {
+    id: string
+    text: string
+    author: string
+    authorSlug?: string | null
+    source?: string | null
+    isFavorited: boolean
+    categories: Category[]
+  }
+}
+
+interface HistoryResponse {
+  views: HistoryEntry[]
+  nextCursor: string | null
+}
+
+function formatViewedAt(viewedAt: string) {
+  return new Date(viewedAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export default function HistoryPage() {
+  const { data: session, status } = useSession()
+  const queryClient = useQueryClient()
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<HistoryResponse>({
+    queryKey: ['history'],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams()
+      if (pageParam) params.set('cursor', pageParam as string)
+
+      const response = await fetch(`/api/history?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch history')
+      }
+      return response.json()
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!session,
+  })
+
+  const views = data?.pages.flatMap(page => page.views) ?? []
+
+  // Clear history mutation
+  const clearHistory = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/history', { method: 'DELETE' })
+      if (!response.ok) {
+        throw new Error('Failed to clear history')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['history'] })
+      toast.success('History cleared')
+    },
+    onError: () => {
+      toast.error('Failed to clear history')
+    },
+  })
+
+  // Toggle favorite mutation
+  const toggleFavorite = useMutation({
+    mutationFn: async ({ quoteId, isFavorited }: { quoteId: string; isFavorited: boolean }) => {
+      const response = isFavorited
+        ? await fetch(`/api/favorites?quoteId=${quoteId}`, { method: 'DELETE' })
+        : await fetch('/api/favorites', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ quoteId }),
+          })
+      if (!response.ok) {
+        throw new Error('Failed to update favorite')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['history'] })
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+    },
+    onError: () => {
+      toast.error('Failed to update favorite')
+    },
+  })
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/quotes">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Quotes
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
+            History
+          </h1>
+          {views.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => {
+                if (window.confirm('Clear your viewing history? Recently seen quotes may come up again sooner.')) {
+                  clearHistory.mutate()
+                }
+              }}
+              disabled={clearHistory.isPending}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          </div>
+        ) : views.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <p className="text-gray-600 dark:text-gray-400">
+                Quotes you view will show up here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {views.map(({ id, viewedAt, quote }) => (
+              <Card key={id}>
+                <CardContent className="p-4 flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <blockquote className="text-gray-800 dark:text-gray-200">
+                      &ldquo;{quote.text}&rdquo;
+                    </blockquote>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      — {quote.authorSlug ? (
+                        <Link href={`/authors/${quote.authorSlug}`} className="hover:underline">
+                          {quote.author}
+                        </Link>
+                      ) : quote.author}
+                      <span className="text-gray-400 dark:text-gray-500"> · {formatViewedAt(viewedAt)}</span>
+                    </p>
+                    {quote.categories.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {quote.categories.map(category => (
+                          <CategoryBadge key={category.id} category={category} />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={quote.isFavorited ? 'Remove from favorites' : 'Add to favorites'}
+                    onClick={() => toggleFavorite.mutate({ quoteId: quote.id, isFavorited: quote.isFavorited })}
+                    disabled={toggleFavorite.isPending}
+                  >
+                    <Heart className={`h-4 w-4 ${quote.isFavorited ? 'fill-red-500 text-red-500' : ''}`} />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
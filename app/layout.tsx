@@ -9,6 +9,8 @@ import { QueryProvider } from '@/components/providers/query-provider'
 const inter = Inter({ subsets: ['latin'] })
 
 export const metadata: Metadata = {
+  // Absolute base for OpenGraph URLs on shared pages
+  metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'),
   title: 'Quotes - Daily Inspiration',
   description: 'Beautiful inspirational quotes to brighten your day',
   manifest: '/manifest.json',
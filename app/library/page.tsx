@@ -0,0 +1,352 @@
+'use client'
+
+import { useState } from 'react'
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { useDebounce } from 'react-use'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { ArrowLeft, Heart, Pencil, Search, Trash2 } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { CategoryBadge, type Category } from '@/components/quotes/category-picker'
+import { ExportDialog } from '@/components/quotes/export-dialog'
+import { ImportDialog } from '@/components/quotes/import-dialog'
+
+interface Quote {
+  id: string
+  text: string
+  author: string
+  categories: Category[]
+  source?: string | null
+  isFavorited: boolean
+  createdAt: string
+}
+
+interface LibraryResponse {
+  quotes: Quote[]
+  nextCursor: string | null
+  total: number
+}
+
+type SortOption = 'newest' | 'oldest' | 'author'
+
+export default function LibraryPage() {
+  const { data: session, status } = useSession()
+  const queryClient = useQueryClient()
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sort, setSort] = useState<SortOption>('newest')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [editing, setEditing] = useState<{ id: string; text: string; author: string } | null>(null)
+
+  // Selection only makes sense for the list currently on screen
+  useDebounce(() => {
+    setDebouncedSearch(search.trim())
+    setSelectedIds(new Set())
+  }, 300, [search])
+
+  // Fetch library pages, following the cursor returned by each page
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<LibraryResponse>({
+    queryKey: ['library', sort, debouncedSearch],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ sort, limit: '20' })
+      if (debouncedSearch) params.set('q', debouncedSearch)
+      if (pageParam) params.set('cursor', pageParam as string)
+
+      const response = await fetch(`/api/library?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch library')
+      }
+      return response.json()
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!session,
+  })
+
+  const quotes = data?.pages.flatMap(page => page.quotes) ?? []
+  const total = data?.pages[0]?.total ?? 0
+
+  // Inline edit mutation
+  const updateQuote = useMutation({
+    mutationFn: async ({ id, text, author }: { id: string; text: string; author: string }) => {
+      const response = await fetch(`/api/quotes/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, author }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update quote')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['library'] })
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      setEditing(null)
+      toast.success('Quote updated')
+    },
+    onError: () => {
+      toast.error('Failed to update quote')
+    },
+  })
+
+  // Bulk delete mutation
+  const deleteQuotes = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const response = await fetch('/api/library', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete quotes')
+      }
+      return response.json()
+    },
+    onSuccess: (result: { deleted: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['library'] })
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      setSelectedIds(new Set())
+      toast.success(`Deleted ${result.deleted} quote${result.deleted === 1 ? '' : 's'}`)
+    },
+    onError: () => {
+      toast.error('Failed to delete quotes')
+    },
+  })
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const allLoadedSelected = quotes.length > 0 && quotes.every(quote => selectedIds.has(quote.id))
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allLoadedSelected ? new Set() : new Set(quotes.map(quote => quote.id)))
+  }
+
+  const handleBulkDelete = () => {
+    const ids = Array.from(selectedIds)
+    if (ids.length > 0 && window.confirm(`Delete ${ids.length} quote${ids.length === 1 ? '' : 's'}? This cannot be undone.`)) {
+      deleteQuotes.mutate(ids)
+    }
+  }
+
+  const handleSaveEdit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+    if (!editing.text.trim() || !editing.author.trim()) {
+      toast.error('Quote text and author are required')
+      return
+    }
+    updateQuote.mutate(editing)
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-3xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/quotes">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Quotes
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
+            My Library
+          </h1>
+          <div className="ml-auto flex gap-2">
+            <ImportDialog />
+            <ExportDialog />
+          </div>
+        </div>
+
+        {/* Search and sort */}
+        <div className="flex flex-col md:flex-row gap-2 mb-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search your quotes..."
+              className="pl-9"
+            />
+          </div>
+          <select
+            aria-label="Sort quotes"
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            value={sort}
+            onChange={(e) => {
+              setSort(e.target.value as SortOption)
+              setSelectedIds(new Set())
+            }}
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="author">Author A–Z</option>
+          </select>
+        </div>
+
+        {/* Bulk actions */}
+        {quotes.length > 0 && (
+          <div className="flex items-center justify-between mb-4 text-sm text-gray-600 dark:text-gray-400">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={allLoadedSelected}
+                onChange={toggleSelectAll}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              {selectedIds.size > 0 ? `${selectedIds.size} selected` : `${total} quotes`}
+            </label>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleBulkDelete}
+              disabled={selectedIds.size === 0 || deleteQuotes.isPending}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete selected
+            </Button>
+          </div>
+        )}
+
+        {/* Quote list */}
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          </div>
+        ) : quotes.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-xl font-semibold mb-4">
+                {debouncedSearch ? 'No quotes match your search' : 'Your library is empty'}
+              </h3>
+              <p className="text-gray-600 dark:text-gray-400">
+                Quotes you add from the quotes page will show up here.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {quotes.map(quote => (
+              <Card key={quote.id}>
+                <CardContent className="p-4 flex gap-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Select quote"
+                    checked={selectedIds.has(quote.id)}
+                    onChange={() => toggleSelected(quote.id)}
+                    className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  {editing?.id === quote.id ? (
+                    <form onSubmit={handleSaveEdit} className="flex-1 space-y-3">
+                      <div>
+                        <Label htmlFor={`text-${quote.id}`}>Quote</Label>
+                        <Textarea
+                          id={`text-${quote.id}`}
+                          value={editing.text}
+                          onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor={`author-${quote.id}`}>Author</Label>
+                        <Input
+                          id={`author-${quote.id}`}
+                          value={editing.author}
+                          onChange={(e) => setEditing({ ...editing, author: e.target.value })}
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <Button type="submit" size="sm" disabled={updateQuote.isPending}>
+                          {updateQuote.isPending ? 'Saving...' : 'Save'}
+                        </Button>
+                        <Button type="button" size="sm" variant="outline" onClick={() => setEditing(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <>
+                      <div className="flex-1">
+                        <p className="text-gray-800 dark:text-white">&ldquo;{quote.text}&rdquo;</p>
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                          — {quote.author}
+                        </p>
+                        {quote.categories.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {quote.categories.map(category => (
+                              <CategoryBadge key={category.id} category={category} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-start gap-1">
+                        {quote.isFavorited && (
+                          <Heart className="h-4 w-4 mt-2 text-red-500 fill-current" />
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Edit quote"
+                          onClick={() => setEditing({ id: quote.id, text: quote.text, author: quote.author })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {hasNextPage && (
+          <div className="flex justify-center mt-6">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { getSharedQuote } from '@/lib/share-links'
+import { QUOTE_IMAGE_FORMATS, renderQuoteImage } from '@/lib/quote-image'
+
+// Revoked links must stop rendering too
+export const dynamic = 'force-dynamic'
+
+export const size = QUOTE_IMAGE_FORMATS.og
+export const contentType = 'image/png'
+export const alt = 'A shared quote'
+
+// Link preview card; doesn't count as a view of the page
+export default async function Image({ params }: { params: { shareId: string } }) {
+  const shared = await getSharedQuote(params.shareId)
+
+  if (!shared) {
+    return new Response('Not found', { status: 404 })
+  }
+
+  return renderQuoteImage(shared.quote, {
+    format: 'og',
+    theme: 'light',
+    fontSize: 'MEDIUM',
+    showAuthor: true,
+  })
+}
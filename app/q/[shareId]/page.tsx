@@ -0,0 +1,90 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { getSharedQuote, recordShareView } from '@/lib/share-links'
+import { truncateText } from '@/lib/utils'
+
+// Revocations and view counts must apply on every request
+export const dynamic = 'force-dynamic'
+
+interface PageProps {
+  params: Promise<{ shareId: string }>
+}
+
+// Metadata and the page look the link up once per request
+const loadSharedQuote = cache(getSharedQuote)
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { shareId } = await params
+  const shared = await loadSharedQuote(shareId)
+  if (!shared) return { title: 'Quote not found' }
+
+  const { quote } = shared
+  const title = `“${truncateText(quote.text, 70)}” — ${quote.author}`
+  const description = truncateText(quote.text, 200)
+
+  return {
+    title,
+    description,
+    robots: { index: false },
+    openGraph: {
+      type: 'article',
+      title,
+      description,
+      url: `/q/${shareId}`,
+      siteName: 'Inspiro',
+    },
+    // The image comes from opengraph-image.tsx
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+  }
+}
+
+// Public page; no session needed
+export default async function SharedQuotePage({ params }: PageProps) {
+  const { shareId } = await params
+  const shared = await loadSharedQuote(shareId)
+
+  if (!shared) {
+    notFound()
+  }
+
+  await recordShareView(shared.linkId)
+  const { quote } = shared
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 flex items-center">
+      <div className="max-w-3xl mx-auto w-full space-y-6">
+        <Card className="text-center">
+          <CardContent className="p-8 md:p-12">
+            <blockquote className="text-2xl md:text-3xl lg:text-4xl font-serif text-gray-800 dark:text-gray-100 leading-relaxed">
+              &ldquo;{quote.text}&rdquo;
+            </blockquote>
+            <p className="mt-6 text-lg md:text-xl text-gray-600 dark:text-gray-300">
+              — {quote.author}
+            </p>
+            {quote.source && (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{quote.source}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="text-center space-y-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Shared with you from Inspiro
+          </p>
+          <Link href="/auth/signup">
+            <Button variant="outline">Get your own daily inspiration</Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
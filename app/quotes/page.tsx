@@ -1,9 +1,9 @@
 'use client'
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Heart, RefreshCw, Plus, LogOut, Settings, Maximize, Menu, X } from 'lucide-react'
+import { Heart, RefreshCw, Plus, LogOut, Settings, Maximize, Menu, X, Pencil, Trash2, Library, Search, Users, History, FolderHeart, ListPlus, Share2, ImageDown } from 'lucide-react'
 import { signOut, useSession } from 'next-auth/react'
 import { useTheme } from 'next-themes'
 import toast from 'react-hot-toast'
@@ -14,134 +14,161 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import { QuoteSearch } from '@/components/quotes/quote-search'
+import { DailyQuoteCard } from '@/components/quotes/daily-quote-card'
+import { CategoryBadge, CategoryPicker } from '@/components/quotes/category-picker'
+import { AddToCollectionDialog } from '@/components/quotes/add-to-collection-dialog'
+import { ShareButton } from '@/components/quotes/share-button'
+import { QuoteImageDialog } from '@/components/quotes/quote-image-dialog'
+import { useRecordView } from '@/hooks/use-record-view'
+import { useRotation } from '@/hooks/use-rotation'
+import { DEFAULT_ROTATION_STRATEGY, type RotationQuote, type RotationStrategyName } from '@/lib/rotation-engine'
 
-interface Quote {
-  id: string
-  text: string
-  author: string
-  category?: string
-  source?: string
-  isFavorited: boolean
-  createdAt: string
+interface DuplicateMatch {
+  quote: RotationQuote
+  similarity: number
+  exact: boolean
 }
 
-interface QuotesResponse {
-  quotes: Quote[]
-  total: number
+// Thrown by the add mutation when POST /api/quotes answers 409
+class DuplicateQuoteError extends Error {
+  constructor(public match: DuplicateMatch) {
+    super('Duplicate quote')
+    this.name = 'DuplicateQuoteError'
+  }
 }
 
 export default function QuotesPage() {
   const { data: session, status } = useSession()
   const queryClient = useQueryClient()
   const { setTheme } = useTheme()
-  const [currentQuote, setCurrentQuote] = useState<Quote | null>(null)
   const [showAddForm, setShowAddForm] = useState(false)
+  const [showSearch, setShowSearch] = useState(false)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [wakeLock, setWakeLock] = useState<WakeLockSentinel | null>(null)
-  const [newQuote, setNewQuote] = useState({ text: '', author: '', category: '', source: '' })
-  const [quotesQueue, setQuotesQueue] = useState<Quote[]>([])
-  const [currentIndex, setCurrentIndex] = useState(0)
+  const [newQuote, setNewQuote] = useState({ text: '', author: '', categoryIds: [] as string[], source: '' })
+  const [duplicateMatch, setDuplicateMatch] = useState<DuplicateMatch | null>(null)
+  const [editingQuote, setEditingQuote] = useState<{ id: string; text: string; author: string; categoryIds: string[]; source: string } | null>(null)
   const [showMobileMenu, setShowMobileMenu] = useState(false)
-  const [isInitialLoad, setIsInitialLoad] = useState(true)
 
-  // Fetch batch of random quotes (prefetch 10 at a time)
-  const { data: quotesData, isLoading, error } = useQuery<QuotesResponse>({
-    queryKey: ['quotes', 'random'],
+  // Fetch user preferences (rotation style, auto-rotation, display)
+  const { data: preferences, isPending: preferencesPending } = useQuery({
+    queryKey: ['preferences'],
     queryFn: async () => {
-      // Add timestamp to prevent caching issues
-      const timestamp = Date.now()
-      const response = await fetch(`/api/quotes?random=true&count=10&t=${timestamp}`)
+      const response = await fetch('/api/preferences')
       if (!response.ok) {
-        throw new Error('Failed to fetch quotes')
+        throw new Error('Failed to fetch preferences')
       }
       return response.json()
     },
-    enabled: !!session && isInitialLoad,
-    staleTime: Infinity, // Never consider stale
-    gcTime: 0, // Don't cache the results
+    enabled: !!session,
   })
 
-  // Initialize quotes queue when data loads (only on initial load)
-  useEffect(() => {
-    if (quotesData?.quotes && quotesData.quotes.length > 0 && isInitialLoad) {
-      setQuotesQueue(quotesData.quotes)
-      setCurrentIndex(0)
-      setCurrentQuote(quotesData.quotes[0])
-      setIsInitialLoad(false)
-    }
-  }, [quotesData?.quotes, isInitialLoad])
-
-  // Function to get next quote from queue or refetch new batch
-  const getNewQuote = useCallback(async () => {
-    const nextIndex = currentIndex + 1
-    
-    // If we have more quotes in the queue, use the next one
-    if (nextIndex < quotesQueue.length) {
-      setCurrentIndex(nextIndex)
-      setCurrentQuote(quotesQueue[nextIndex])
-    } else {
-      // Queue is exhausted, fetch new batch manually
-      try {
-        const timestamp = Date.now()
-        const response = await fetch(`/api/quotes?random=true&count=10&t=${timestamp}`)
-        if (!response.ok) {
-          throw new Error('Failed to fetch quotes')
-        }
-        const data: QuotesResponse = await response.json()
-        
-        if (data?.quotes && data.quotes.length > 0) {
-          setQuotesQueue(data.quotes)
-          setCurrentIndex(0)
-          setCurrentQuote(data.quotes[0])
-        }
-      } catch (error) {
-        console.error('Failed to fetch new quotes:', error)
-        // If we fail, loop back to the beginning of the current queue
-        if (quotesQueue.length > 0) {
-          setCurrentIndex(0)
-          setCurrentQuote(quotesQueue[0])
-        }
-      }
-    }
-  }, [currentIndex, quotesQueue])
+  // Wait for preferences so we don't start (and then abandon) the wrong rotation
+  const rotationStrategy: RotationStrategyName | undefined = preferencesPending
+    ? undefined
+    : preferences?.rotationStrategy ?? DEFAULT_ROTATION_STRATEGY
+  const favoritesOnly = preferences?.quoteSources?.length === 1 && preferences.quoteSources[0] === 'FAVORITES'
+
+  const {
+    currentQuote,
+    queuedCount,
+    total,
+    shown,
+    isLoading,
+    isPending,
+    hasError,
+    canAdvance,
+    next,
+    show,
+    update,
+    remove,
+    reset,
+  } = useRotation({ strategy: rotationStrategy })
+
+  useRecordView(currentQuote?.id)
 
   // Add quote mutation
   const addQuoteMutation = useMutation({
-    mutationFn: async (quote: { text: string; author: string; category?: string; source?: string }) => {
+    mutationFn: async (quote: { text: string; author: string; categoryIds?: string[]; source?: string; allowSimilar?: boolean }) => {
       const response = await fetch('/api/quotes', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(quote),
       })
+      if (response.status === 409) {
+        const { duplicate } = await response.json()
+        throw new DuplicateQuoteError(duplicate)
+      }
       if (!response.ok) {
         throw new Error('Failed to add quote')
       }
       return response.json()
     },
-    onSuccess: async () => {
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['quotes'] })
       setShowAddForm(false)
-      setNewQuote({ text: '', author: '', category: '', source: '' })
+      setNewQuote({ text: '', author: '', categoryIds: [], source: '' })
+      setDuplicateMatch(null)
       toast.success('Quote added successfully!')
-      
-      // Fetch fresh batch that might include the new quote
-      try {
-        const timestamp = Date.now()
-        const response = await fetch(`/api/quotes?random=true&count=10&t=${timestamp}`)
-        if (response.ok) {
-          const data = await response.json()
-          if (data?.quotes && data.quotes.length > 0) {
-            setQuotesQueue(data.quotes)
-            setCurrentIndex(0)
-            setCurrentQuote(data.quotes[0])
-          }
-        }
-      } catch (error) {
-        console.error('Failed to refresh quotes after adding:', error)
+
+      // Start a fresh rotation that can include the new quote
+      reset()
+    },
+    onError: (error) => {
+      if (error instanceof DuplicateQuoteError) {
+        setDuplicateMatch(error.match)
+        return
+      }
+      toast.error('Failed to add quote')
+    },
+  })
+
+  // Edit quote mutation
+  const editQuoteMutation = useMutation({
+    mutationFn: async ({ id, ...quote }: { id: string; text: string; author: string; categoryIds?: string[]; source?: string }) => {
+      const response = await fetch(`/api/quotes/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(quote),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to update quote')
+      }
+      return response.json() as Promise<RotationQuote>
+    },
+    onSuccess: (updatedQuote) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      setEditingQuote(null)
+      update(updatedQuote)
+      toast.success('Quote updated successfully!')
+    },
+    onError: () => {
+      toast.error('Failed to update quote')
+    },
+  })
+
+  // Delete quote mutation
+  const deleteQuoteMutation = useMutation({
+    mutationFn: async (quoteId: string) => {
+      const response = await fetch(`/api/quotes/${quoteId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete quote')
       }
+      return quoteId
+    },
+    onSuccess: (quoteId) => {
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      setEditingQuote(null)
+      toast.success('Quote deleted')
+
+      // Drop the quote from the rotation and show whatever comes next
+      remove(quoteId)
     },
     onError: () => {
-      toast.error('Failed to add quote')
+      toast.error('Failed to delete quote')
     },
   })
 
@@ -186,35 +213,72 @@ export default function QuotesPage() {
     addQuoteMutation.mutate(newQuote)
   }
 
-  const handleToggleFavorite = () => {
-    if (currentQuote) {
-      toggleFavoriteMutation.mutate({
-        quoteId: currentQuote.id,
-        isFavorited: currentQuote.isFavorited,
+  // Favorite the quote that already exists instead of adding a copy
+  const handleFavoriteExisting = () => {
+    if (!duplicateMatch) return
+    const existing = duplicateMatch.quote
+    const showExisting = (isFavorited: boolean) => {
+      show({ ...existing, isFavorited })
+      setShowAddForm(false)
+      setNewQuote({ text: '', author: '', categoryIds: [], source: '' })
+      setDuplicateMatch(null)
+    }
+
+    if (existing.isFavorited) {
+      showExisting(true)
+      return
+    }
+    toggleFavoriteMutation.mutate(
+      { quoteId: existing.id, isFavorited: false },
+      {
+        onSuccess: () => {
+          showExisting(true)
+          toast.success('Added the existing quote to your favorites')
+        },
+      }
+    )
+  }
+
+  const handleEditQuote = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingQuote) return
+    if (!editingQuote.text.trim() || !editingQuote.author.trim()) {
+      toast.error('Quote text and author are required')
+      return
+    }
+    editQuoteMutation.mutate(editingQuote)
+  }
+
+  const startEditing = () => {
+    if (currentQuote && !currentQuote.isPreloaded) {
+      setShowAddForm(false)
+      setEditingQuote({
+        id: currentQuote.id,
+        text: currentQuote.text,
+        author: currentQuote.author,
+        categoryIds: currentQuote.categories?.map(category => category.id) ?? [],
+        source: currentQuote.source || '',
       })
-      // Update current quote state immediately for UI feedback
-      const updatedQuote = { ...currentQuote, isFavorited: !currentQuote.isFavorited }
-      setCurrentQuote(updatedQuote)
-      
-      // Also update the quote in the queue
-      setQuotesQueue(prev => prev.map(quote => 
-        quote.id === currentQuote.id ? updatedQuote : quote
-      ))
     }
   }
 
-  // Fetch user preferences for auto-rotation
-  const { data: preferences } = useQuery({
-    queryKey: ['preferences'],
-    queryFn: async () => {
-      const response = await fetch('/api/preferences')
-      if (!response.ok) {
-        throw new Error('Failed to fetch preferences')
-      }
-      return response.json()
-    },
-    enabled: !!session,
-  })
+  const handleDeleteQuote = () => {
+    if (currentQuote && !currentQuote.isPreloaded && window.confirm('Delete this quote? This cannot be undone.')) {
+      deleteQuoteMutation.mutate(currentQuote.id)
+    }
+  }
+
+  const handleToggleFavorite = () => {
+    if (!currentQuote) return
+    const { id, isFavorited } = currentQuote
+
+    // Update immediately for UI feedback; revert if the request fails
+    update({ id, isFavorited: !isFavorited })
+    toggleFavoriteMutation.mutate(
+      { quoteId: id, isFavorited },
+      { onError: () => update({ id, isFavorited }) }
+    )
+  }
 
   // Apply theme when preferences load
   useEffect(() => {
@@ -232,12 +296,12 @@ export default function QuotesPage() {
   useEffect(() => {
     if (isFullscreen && preferences?.rotationInterval && currentQuote) {
       const interval = setInterval(() => {
-        getNewQuote()
+        next()
       }, preferences.rotationInterval * 1000)
 
       return () => clearInterval(interval)
     }
-  }, [isFullscreen, preferences?.rotationInterval, currentQuote, getNewQuote])
+  }, [isFullscreen, preferences?.rotationInterval, currentQuote, next])
 
   // Fullscreen change listener
   useEffect(() => {
@@ -310,7 +374,7 @@ export default function QuotesPage() {
     return null // This should redirect to login via the middleware
   }
 
-  if (isLoading) {
+  if (isPending) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
@@ -318,7 +382,7 @@ export default function QuotesPage() {
     )
   }
 
-  if (error) {
+  if (hasError) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Card className="w-full max-w-md">
@@ -327,6 +391,10 @@ export default function QuotesPage() {
           </CardHeader>
           <CardContent>
             <p>Failed to load quotes. Please try again.</p>
+            <Button variant="outline" className="mt-4" onClick={next}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Try Again
+            </Button>
           </CardContent>
         </Card>
       </div>
@@ -373,7 +441,7 @@ export default function QuotesPage() {
           {/* Subtle controls overlay */}
           <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 flex gap-4 opacity-30 hover:opacity-100 transition-opacity">
             <button
-              onClick={(e) => { e.stopPropagation(); getNewQuote(); }}
+              onClick={(e) => { e.stopPropagation(); next(); }}
               className="p-3 bg-white/20 dark:bg-gray-800/50 rounded-full backdrop-blur-sm"
             >
               <RefreshCw className="h-6 w-6 text-gray-800 dark:text-white" />
@@ -409,6 +477,14 @@ export default function QuotesPage() {
           
           {/* Desktop Navigation */}
           <div className="hidden md:flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSearch(!showSearch)}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -425,6 +501,42 @@ export default function QuotesPage() {
               <Maximize className="h-4 w-4 mr-2" />
               Fullscreen
             </Button>
+            <Link href="/library">
+              <Button
+                variant="outline"
+                size="sm"
+              >
+                <Library className="h-4 w-4 mr-2" />
+                My Library
+              </Button>
+            </Link>
+            <Link href="/collections">
+              <Button
+                variant="outline"
+                size="sm"
+              >
+                <FolderHeart className="h-4 w-4 mr-2" />
+                Collections
+              </Button>
+            </Link>
+            <Link href="/authors">
+              <Button
+                variant="outline"
+                size="sm"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Authors
+              </Button>
+            </Link>
+            <Link href="/history">
+              <Button
+                variant="outline"
+                size="sm"
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
+            </Link>
             <Link href="/settings">
               <Button
                 variant="outline"
@@ -446,6 +558,13 @@ export default function QuotesPage() {
 
           {/* Mobile Navigation */}
           <div className="md:hidden flex gap-2" data-mobile-menu>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSearch(!showSearch)}
+            >
+              <Search className="h-4 w-4" />
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -480,6 +599,54 @@ export default function QuotesPage() {
             >
               <Card className="p-4" data-mobile-menu>
                 <div className="space-y-2" data-mobile-menu>
+                  <Link href="/library" className="block" data-mobile-menu>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => setShowMobileMenu(false)}
+                      data-mobile-menu
+                    >
+                      <Library className="h-4 w-4 mr-2" />
+                      My Library
+                    </Button>
+                  </Link>
+                  <Link href="/collections" className="block" data-mobile-menu>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => setShowMobileMenu(false)}
+                      data-mobile-menu
+                    >
+                      <FolderHeart className="h-4 w-4 mr-2" />
+                      Collections
+                    </Button>
+                  </Link>
+                  <Link href="/authors" className="block" data-mobile-menu>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => setShowMobileMenu(false)}
+                      data-mobile-menu
+                    >
+                      <Users className="h-4 w-4 mr-2" />
+                      Authors
+                    </Button>
+                  </Link>
+                  <Link href="/history" className="block" data-mobile-menu>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => setShowMobileMenu(false)}
+                      data-mobile-menu
+                    >
+                      <History className="h-4 w-4 mr-2" />
+                      History
+                    </Button>
+                  </Link>
                   <Link href="/settings" className="block" data-mobile-menu>
                     <Button
                       variant="ghost"
@@ -511,6 +678,28 @@ export default function QuotesPage() {
           )}
         </AnimatePresence>
 
+        {/* Quote of the Day (already on screen when rotating daily) */}
+        {rotationStrategy !== 'DAILY' && <DailyQuoteCard />}
+
+        {/* Search */}
+        <AnimatePresence>
+          {showSearch && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="mb-8"
+            >
+              <QuoteSearch
+                onSelect={(quote) => {
+                  show(quote)
+                  setShowSearch(false)
+                }}
+              />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Add Quote Form */}
         <AnimatePresence>
           {showAddForm && (
@@ -531,7 +720,10 @@ export default function QuotesPage() {
                       <Textarea
                         id="quote-text"
                         value={newQuote.text}
-                        onChange={(e) => setNewQuote({ ...newQuote, text: e.target.value })}
+                        onChange={(e) => {
+                          setNewQuote({ ...newQuote, text: e.target.value })
+                          setDuplicateMatch(null)
+                        }}
                         placeholder="Enter the quote text..."
                         required
                       />
@@ -546,26 +738,57 @@ export default function QuotesPage() {
                         required
                       />
                     </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <Label htmlFor="category">Category</Label>
-                        <Input
-                          id="category"
-                          value={newQuote.category}
-                          onChange={(e) => setNewQuote({ ...newQuote, category: e.target.value })}
-                          placeholder="e.g., Motivation, Life, Success"
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="source">Source</Label>
-                        <Input
-                          id="source"
-                          value={newQuote.source}
-                          onChange={(e) => setNewQuote({ ...newQuote, source: e.target.value })}
-                          placeholder="Book, speech, etc."
-                        />
-                      </div>
+                    <div>
+                      <Label htmlFor="source">Source</Label>
+                      <Input
+                        id="source"
+                        value={newQuote.source}
+                        onChange={(e) => setNewQuote({ ...newQuote, source: e.target.value })}
+                        placeholder="Book, speech, etc."
+                      />
+                    </div>
+                    <div>
+                      <Label>Categories</Label>
+                      <CategoryPicker
+                        className="mt-2"
+                        value={newQuote.categoryIds}
+                        onChange={(categoryIds) => setNewQuote({ ...newQuote, categoryIds })}
+                      />
                     </div>
+                    {duplicateMatch && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 p-4 text-sm dark:border-amber-700 dark:bg-amber-900/20">
+                        <p className="font-medium text-amber-800 dark:text-amber-300">
+                          {duplicateMatch.exact
+                            ? 'This quote is already in your collection:'
+                            : `This looks like a quote you already have (${Math.round(duplicateMatch.similarity * 100)}% similar):`}
+                        </p>
+                        <blockquote className="mt-2 italic text-gray-700 dark:text-gray-300">
+                          &ldquo;{duplicateMatch.quote.text}&rdquo; — {duplicateMatch.quote.author}
+                        </blockquote>
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          <Button
+                            type="button"
+                            size="sm"
+                            onClick={handleFavoriteExisting}
+                            disabled={toggleFavoriteMutation.isPending}
+                          >
+                            <Heart className="h-4 w-4 mr-2" />
+                            {duplicateMatch.quote.isFavorited ? 'Show the existing one' : 'Favorite the existing one instead'}
+                          </Button>
+                          {!duplicateMatch.exact && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              onClick={() => addQuoteMutation.mutate({ ...newQuote, allowSimilar: true })}
+                              disabled={addQuoteMutation.isPending}
+                            >
+                              Add anyway
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
                     <div className="flex gap-2">
                       <Button
                         type="submit"
@@ -576,7 +799,81 @@ export default function QuotesPage() {
                       <Button
                         type="button"
                         variant="outline"
-                        onClick={() => setShowAddForm(false)}
+                        onClick={() => {
+                          setShowAddForm(false)
+                          setDuplicateMatch(null)
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </form>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Edit Quote Form */}
+        <AnimatePresence>
+          {editingQuote && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="mb-8"
+            >
+              <Card>
+                <CardHeader>
+                  <CardTitle>Edit Quote</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handleEditQuote} className="space-y-4">
+                    <div>
+                      <Label htmlFor="edit-quote-text">Quote *</Label>
+                      <Textarea
+                        id="edit-quote-text"
+                        value={editingQuote.text}
+                        onChange={(e) => setEditingQuote({ ...editingQuote, text: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="edit-author">Author *</Label>
+                      <Input
+                        id="edit-author"
+                        value={editingQuote.author}
+                        onChange={(e) => setEditingQuote({ ...editingQuote, author: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="edit-source">Source</Label>
+                      <Input
+                        id="edit-source"
+                        value={editingQuote.source}
+                        onChange={(e) => setEditingQuote({ ...editingQuote, source: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label>Categories</Label>
+                      <CategoryPicker
+                        className="mt-2"
+                        value={editingQuote.categoryIds}
+                        onChange={(categoryIds) => setEditingQuote({ ...editingQuote, categoryIds })}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        type="submit"
+                        disabled={editQuoteMutation.isPending}
+                      >
+                        {editQuoteMutation.isPending ? 'Saving...' : 'Save Changes'}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setEditingQuote(null)}
                       >
                         Cancel
                       </Button>
@@ -618,13 +915,19 @@ export default function QuotesPage() {
                       'text-lg md:text-xl'
                     }`}
                   >
-                    — {currentQuote.author}
+                    — {currentQuote.authorSlug ? (
+                      <Link href={`/authors/${currentQuote.authorSlug}`} className="hover:underline">
+                        {currentQuote.author}
+                      </Link>
+                    ) : currentQuote.author}
                   </cite>
                 )}
-                {currentQuote.category && (
-                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
-                    Category: {currentQuote.category}
-                  </p>
+                {currentQuote.categories && currentQuote.categories.length > 0 && (
+                  <div className="flex flex-wrap justify-center gap-2 mt-4">
+                    {currentQuote.categories.map(category => (
+                      <CategoryBadge key={category.id} category={category} />
+                    ))}
+                  </div>
                 )}
               </CardContent>
             </Card>
@@ -633,12 +936,12 @@ export default function QuotesPage() {
 
         {/* Controls */}
         {currentQuote && (
-          <div className="flex justify-center gap-4 mb-8">
+          <div className="flex flex-wrap justify-center gap-4 mb-8">
             <Button
-              onClick={getNewQuote}
+              onClick={next}
               size="lg"
               className="flex items-center gap-2"
-              disabled={isLoading}
+              disabled={!canAdvance}
             >
               <RefreshCw className={`h-5 w-5 ${isLoading ? 'animate-spin' : ''}`} />
               New Quote
@@ -657,6 +960,58 @@ export default function QuotesPage() {
               />
               {currentQuote.isFavorited ? "Favorited" : "Add to Favorites"}
             </Button>
+            <AddToCollectionDialog quoteId={currentQuote.id}>
+              <Button
+                variant="outline"
+                size="lg"
+                className="flex items-center gap-2"
+              >
+                <ListPlus className="h-5 w-5" />
+                Collect
+              </Button>
+            </AddToCollectionDialog>
+            <ShareButton
+              target={{ quoteId: currentQuote.id }}
+              variant="outline"
+              size="lg"
+              className="flex items-center gap-2"
+            >
+              <Share2 className="h-5 w-5" />
+              Share
+            </ShareButton>
+            <QuoteImageDialog quoteId={currentQuote.id}>
+              <Button
+                variant="outline"
+                size="lg"
+                className="flex items-center gap-2"
+              >
+                <ImageDown className="h-5 w-5" />
+                Image
+              </Button>
+            </QuoteImageDialog>
+            {!currentQuote.isPreloaded && (
+              <>
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={startEditing}
+                  className="flex items-center gap-2"
+                >
+                  <Pencil className="h-5 w-5" />
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  size="lg"
+                  onClick={handleDeleteQuote}
+                  disabled={deleteQuoteMutation.isPending}
+                  className="flex items-center gap-2 text-red-600"
+                >
+                  <Trash2 className="h-5 w-5" />
+                  Delete
+                </Button>
+              </>
+            )}
           </div>
         )}
 
@@ -666,14 +1021,9 @@ export default function QuotesPage() {
             <p className="text-sm">
               Welcome back, {session.user?.name || session.user?.email}!
             </p>
-            {quotesData?.total && (
+            {rotationStrategy !== 'DAILY' && total > 0 && (
               <p className="text-xs">
-                {quotesData.total} quotes available in your collection
-              </p>
-            )}
-            {quotesQueue.length > 0 && (
-              <p className="text-xs">
-                {quotesQueue.length - currentIndex - 1} more quotes queued • Quote {currentIndex + 1} of {quotesQueue.length} in current batch
+                {total} quotes available in your collection • {shown} shown • {queuedCount} more queued
               </p>
             )}
           </div>
@@ -684,14 +1034,26 @@ export default function QuotesPage() {
           <Card className="text-center py-12">
             <CardContent>
               <h3 className="text-xl font-semibold mb-4">No quotes available!</h3>
-              <p className="text-gray-600 dark:text-gray-400 mb-6">
-                Add your first quote to get started, or check your settings to adjust quote sources.
-              </p>
+              {preferences?.collectionId ? (
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  The collection you rotate through is empty. Add quotes to it, or pick other sources in settings.
+                </p>
+              ) : favoritesOnly ? (
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  You haven&apos;t favorited any quotes yet. Add more sources in settings, then tap the heart on quotes you love.
+                </p>
+              ) : (
+                <p className="text-gray-600 dark:text-gray-400 mb-6">
+                  Add your first quote to get started, or check your settings to adjust quote sources.
+                </p>
+              )}
               <div className="flex gap-2 justify-center">
-                <Button onClick={() => setShowAddForm(true)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Your First Quote
-                </Button>
+                {!favoritesOnly && !preferences?.collectionId && (
+                  <Button onClick={() => setShowAddForm(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Your First Quote
+                  </Button>
+                )}
                 <Link href="/settings">
                   <Button variant="outline">
                     <Settings className="h-4 w-4 mr-2" />
@@ -0,0 +1,430 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { signIn, signOut, useSession } from 'next-auth/react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { ArrowLeft, Download, KeyRound, Loader2, Mail, Trash2 } from 'lucide-react'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+interface Account {
+  id: string
+  email: string
+  name: string | null
+  emailVerified: string | null
+  createdAt: string
+  hasPassword: boolean
+  connectedAccounts: number
+}
+
+// Account routes reply { error } on failure
+async function sendJson(url: string, method: string, body: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  const data = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new Error(data?.error || 'Something went wrong')
+  }
+  return data
+}
+
+export default function AccountPage() {
+  const { data: session, status, update } = useSession()
+  const queryClient = useQueryClient()
+
+  const { data: account, isLoading } = useQuery<Account>({
+    queryKey: ['account'],
+    queryFn: async () => {
+      const response = await fetch('/api/account')
+      if (!response.ok) {
+        throw new Error('Failed to fetch account')
+      }
+      return response.json()
+    },
+    enabled: !!session,
+  })
+
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' })
+  const [emailForm, setEmailForm] = useState({ email: '', currentPassword: '' })
+  const [deleteForm, setDeleteForm] = useState({ confirmEmail: '', currentPassword: '' })
+
+  // The session keeps the email it signed in with until it's refreshed
+  const sessionEmail = session?.user?.email
+  const refreshedFor = useRef<string | null>(null)
+  useEffect(() => {
+    if (account && sessionEmail && account.email !== sessionEmail && refreshedFor.current !== account.email) {
+      refreshedFor.current = account.email
+      update()
+    }
+  }, [account, sessionEmail, update])
+
+  const changePassword = useMutation({
+    mutationFn: async () => {
+      await sendJson('/api/account/password', 'PUT', {
+        currentPassword: passwordForm.currentPassword || undefined,
+        newPassword: passwordForm.newPassword,
+      })
+      // The change signed out every session, this one included
+      const result = await signIn('credentials', {
+        email: account?.email,
+        password: passwordForm.newPassword,
+        redirect: false,
+      })
+      return { signedIn: !result?.error }
+    },
+    onSuccess: ({ signedIn }) => {
+      if (!signedIn) {
+        toast.success('Password updated. Sign in with your new password.')
+        signOut({ callbackUrl: '/auth/login' })
+        return
+      }
+      queryClient.invalidateQueries({ queryKey: ['account'] })
+      queryClient.invalidateQueries({ queryKey: ['connections'] })
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' })
+      toast.success('Password updated. Other devices have been signed out.')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const changeEmail = useMutation({
+    mutationFn: () => sendJson('/api/account/email', 'POST', {
+      email: emailForm.email,
+      currentPassword: emailForm.currentPassword || undefined,
+    }),
+    onSuccess: (data) => {
+      setEmailForm({ email: '', currentPassword: '' })
+      toast.success(data.message)
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const deleteAccount = useMutation({
+    mutationFn: () => sendJson('/api/account', 'DELETE', {
+      confirmEmail: deleteForm.confirmEmail,
+      currentPassword: deleteForm.currentPassword || undefined,
+    }),
+    onSuccess: () => {
+      toast.success('Your account has been deleted')
+      signOut({ callbackUrl: '/' })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const handleChangePassword = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      toast.error('Passwords do not match')
+      return
+    }
+    changePassword.mutate()
+  }
+
+  const handleChangeEmail = (e: React.FormEvent) => {
+    e.preventDefault()
+    changeEmail.mutate()
+  }
+
+  const handleDelete = (e: React.FormEvent) => {
+    e.preventDefault()
+    deleteAccount.mutate()
+  }
+
+  if (status === 'loading' || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-gray-900"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null // This should redirect to login via the middleware
+  }
+
+  if (!account) {
+    return null
+  }
+
+  const hasPassword = account.hasPassword
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Link href="/settings">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Settings
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
+            Account
+          </h1>
+        </div>
+
+        <div className="space-y-6">
+          {/* Profile */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Profile</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-500 dark:text-gray-400">Email</span>
+                <span className="font-medium text-gray-800 dark:text-white">
+                  {account.email}
+                  {!account.emailVerified && (
+                    <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">Not verified</span>
+                  )}
+                </span>
+              </div>
+              {account.name && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-500 dark:text-gray-400">Name</span>
+                  <span className="font-medium text-gray-800 dark:text-white">{account.name}</span>
+                </div>
+              )}
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-500 dark:text-gray-400">Signs in with</span>
+                <span className="font-medium text-gray-800 dark:text-white">
+                  {[
+                    hasPassword && 'Password',
+                    account.connectedAccounts > 0 &&
+                      `${account.connectedAccounts} connected account${account.connectedAccounts === 1 ? '' : 's'}`,
+                  ].filter(Boolean).join(', ')}
+                </span>
+              </div>
+              <div className="flex justify-between gap-4">
+                <span className="text-gray-500 dark:text-gray-400">Member since</span>
+                <span className="font-medium text-gray-800 dark:text-white">
+                  {new Date(account.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Password */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{hasPassword ? 'Change Password' : 'Set a Password'}</CardTitle>
+              {!hasPassword && (
+                <CardDescription>
+                  You sign in with a connected account. Add a password to sign in with your email too.
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleChangePassword} className="space-y-4">
+                {hasPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="currentPassword">Current password</Label>
+                    <Input
+                      id="currentPassword"
+                      type="password"
+                      autoComplete="current-password"
+                      value={passwordForm.currentPassword}
+                      onChange={(e) => setPasswordForm(prev => ({ ...prev, currentPassword: e.target.value }))}
+                      required
+                    />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">New password</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={passwordForm.newPassword}
+                    onChange={(e) => setPasswordForm(prev => ({ ...prev, newPassword: e.target.value }))}
+                    minLength={6}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirm new password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={passwordForm.confirmPassword}
+                    onChange={(e) => setPasswordForm(prev => ({ ...prev, confirmPassword: e.target.value }))}
+                    minLength={6}
+                    required
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={changePassword.isPending} className="flex items-center gap-2">
+                    {changePassword.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <KeyRound className="h-4 w-4" />
+                    )}
+                    {hasPassword ? 'Change Password' : 'Set Password'}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Email */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Change Email</CardTitle>
+              <CardDescription>
+                We&apos;ll send a confirmation link to the new address. Your current email keeps working until
+                it&apos;s followed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleChangeEmail} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="newEmail">New email</Label>
+                  <Input
+                    id="newEmail"
+                    type="email"
+                    autoComplete="email"
+                    value={emailForm.email}
+                    onChange={(e) => setEmailForm(prev => ({ ...prev, email: e.target.value }))}
+                    required
+                  />
+                </div>
+                {hasPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="emailPassword">Current password</Label>
+                    <Input
+                      id="emailPassword"
+                      type="password"
+                      autoComplete="current-password"
+                      value={emailForm.currentPassword}
+                      onChange={(e) => setEmailForm(prev => ({ ...prev, currentPassword: e.target.value }))}
+                      required
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={changeEmail.isPending} className="flex items-center gap-2">
+                    {changeEmail.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Mail className="h-4 w-4" />
+                    )}
+                    Send Confirmation Link
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Danger Zone */}
+          <Card className="border-red-200 dark:border-red-900">
+            <CardHeader>
+              <CardTitle className="text-red-600 dark:text-red-400">Delete Account</CardTitle>
+              <CardDescription>
+                Permanently deletes your account, custom quotes, categories, collections, favorites and share
+                links. This can&apos;t be undone.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-wrap gap-3">
+              <Button variant="outline" asChild>
+                <a href="/api/account/export" className="flex items-center gap-2">
+                  <Download className="h-4 w-4" />
+                  Download Your Data
+                </a>
+              </Button>
+              <Dialog onOpenChange={(open) => !open && setDeleteForm({ confirmEmail: '', currentPassword: '' })}>
+                <DialogTrigger asChild>
+                  <Button variant="destructive" className="flex items-center gap-2">
+                    <Trash2 className="h-4 w-4" />
+                    Delete Account
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <form onSubmit={handleDelete} className="space-y-4">
+                    <DialogHeader>
+                      <DialogTitle>Delete your account?</DialogTitle>
+                      <DialogDescription>
+                        Everything in your account is deleted right away.{' '}
+                        <a href="/api/account/export" className="font-medium text-primary hover:underline">
+                          Download your data
+                        </a>{' '}
+                        first if you want to keep a copy.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                      <Label htmlFor="confirmEmail">
+                        Type <span className="font-semibold">{account.email}</span> to confirm
+                      </Label>
+                      <Input
+                        id="confirmEmail"
+                        type="email"
+                        autoComplete="off"
+                        value={deleteForm.confirmEmail}
+                        onChange={(e) => setDeleteForm(prev => ({ ...prev, confirmEmail: e.target.value }))}
+                        required
+                      />
+                    </div>
+                    {hasPassword && (
+                      <div className="space-y-2">
+                        <Label htmlFor="deletePassword">Current password</Label>
+                        <Input
+                          id="deletePassword"
+                          type="password"
+                          autoComplete="current-password"
+                          value={deleteForm.currentPassword}
+                          onChange={(e) => setDeleteForm(prev => ({ ...prev, currentPassword: e.target.value }))}
+                          required
+                        />
+                      </div>
+                    )}
+                    <DialogFooter>
+                      <Button
+                        type="submit"
+                        variant="destructive"
+                        disabled={
+                          deleteAccount.isPending ||
+                          deleteForm.confirmEmail.trim().toLowerCase() !== account.email.toLowerCase()
+                        }
+                        className="flex items-center gap-2"
+                      >
+                        {deleteAccount.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                        Delete Forever
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
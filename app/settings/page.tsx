@@ -2,30 +2,49 @@
 
 import { useState, useEffect } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { useSession } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { signIn, useSession } from 'next-auth/react'
 import { useTheme } from 'next-themes'
 import Link from 'next/link'
 import toast from 'react-hot-toast'
-import { ArrowLeft, Save } from 'lucide-react'
+import { ArrowLeft, Copy, Eye, Link2, Plus, Save, Trash2, UserCog } from 'lucide-react'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { CategoryBadge, CategoryPicker, useCategories } from '@/components/quotes/category-picker'
+import { useCollections } from '@/components/quotes/add-to-collection-dialog'
+import { copyShareUrl, useShareLinks } from '@/components/quotes/share-button'
+import { useOAuthProviders } from '@/components/auth/oauth-buttons'
+import type { QuoteSourceKind } from '@/lib/quote-scope'
+import type { RotationStrategyName } from '@/lib/rotation-engine'
 
 interface UserPreferences {
   id: string
   rotationInterval: number
-  quoteSource: 'PRELOADED' | 'CUSTOM' | 'FAVORITES' | 'BOTH'
+  quoteSources: QuoteSourceKind[]
+  rotationStrategy: RotationStrategyName
   theme: 'LIGHT' | 'DARK' | 'SYSTEM'
   showAuthor: boolean
   enableAnimations: boolean
   fontSize: 'SMALL' | 'MEDIUM' | 'LARGE' | 'EXTRA_LARGE'
+  categoryIds: string[]
+  collectionId: string | null
+  timezone: string | null
+  dailyRepeatWindow: number
+  viewHistoryDays: number
+  favoriteWeight: number
+  newQuoteWeight: number
+  unseenWeight: number
+}
+
+interface ConnectedAccounts {
+  hasPassword: boolean
+  accounts: Array<{ id: string; provider: string }>
 }
 
 export default function SettingsPage() {
   const { data: session, status } = useSession()
-  const router = useRouter()
   const queryClient = useQueryClient()
   const { setTheme } = useTheme()
 
@@ -43,6 +62,23 @@ export default function SettingsPage() {
   })
 
   const [settings, setSettings] = useState<Partial<UserPreferences>>({})
+  const [newCategory, setNewCategory] = useState({ name: '', color: '#6366f1' })
+  const { data: categories } = useCategories(!!session)
+  const { data: collections } = useCollections(!!session)
+  const { data: shareLinks } = useShareLinks(!!session)
+  const { data: oauthProviders } = useOAuthProviders()
+
+  const { data: connections } = useQuery<ConnectedAccounts>({
+    queryKey: ['connections'],
+    queryFn: async () => {
+      const response = await fetch('/api/account/connections')
+      if (!response.ok) {
+        throw new Error('Failed to fetch connected accounts')
+      }
+      return response.json()
+    },
+    enabled: !!session,
+  })
 
   // Initialize settings when preferences load
   useEffect(() => {
@@ -75,6 +111,7 @@ export default function SettingsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['preferences'] })
+      queryClient.invalidateQueries({ queryKey: ['daily-quote'] })
       // Apply theme immediately
       if (settings.theme) {
         const themeMapping: Record<string, string> = {
@@ -91,6 +128,103 @@ export default function SettingsPage() {
     },
   })
 
+  // Create custom category mutation
+  const createCategory = useMutation({
+    mutationFn: async (category: { name: string; color: string }) => {
+      const response = await fetch('/api/categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(category),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to create category')
+      }
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] })
+      setNewCategory({ name: '', color: '#6366f1' })
+      toast.success('Category created')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  // Delete custom category mutation
+  const deleteCategory = useMutation({
+    mutationFn: async (categoryId: string) => {
+      const response = await fetch(`/api/categories/${categoryId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to delete category')
+      }
+      return categoryId
+    },
+    onSuccess: (categoryId) => {
+      queryClient.invalidateQueries({ queryKey: ['categories'] })
+      queryClient.invalidateQueries({ queryKey: ['preferences'] })
+      setSettings(prev => ({
+        ...prev,
+        categoryIds: prev.categoryIds?.filter(id => id !== categoryId)
+      }))
+      toast.success('Category deleted')
+    },
+    onError: () => {
+      toast.error('Failed to delete category')
+    },
+  })
+
+  // Revoke share link mutation
+  const revokeShareLink = useMutation({
+    mutationFn: async (linkId: string) => {
+      const response = await fetch(`/api/shares/${linkId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to revoke link')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shares'] })
+      toast.success('Link revoked')
+    },
+    onError: () => {
+      toast.error('Failed to revoke link')
+    },
+  })
+
+  // Disconnect OAuth account mutation
+  const disconnectAccount = useMutation({
+    mutationFn: async (accountId: string) => {
+      const response = await fetch(`/api/account/connections/${accountId}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to disconnect account')
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['connections'] })
+      toast.success('Account disconnected')
+    },
+    onError: (error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const handleCreateCategory = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newCategory.name.trim()) {
+      toast.error('Category name is required')
+      return
+    }
+    createCategory.mutate(newCategory)
+  }
+
   const handleSave = () => {
     updatePreferences.mutate(settings)
   }
@@ -104,8 +238,7 @@ export default function SettingsPage() {
   }
 
   if (!session) {
-    router.push('/auth/login')
-    return null
+    return null // This should redirect to login via the middleware
   }
 
   const rotationIntervals = [
@@ -118,13 +251,62 @@ export default function SettingsPage() {
     { value: 3600, label: '1 hour' },
   ]
 
-  const quoteSources = [
-    { value: 'PRELOADED', label: 'Preloaded Quotes Only', description: 'Show only curated quotes from our collection' },
-    { value: 'CUSTOM', label: 'Your Custom Quotes Only', description: 'Show only quotes you\'ve added yourself' },
-    { value: 'FAVORITES', label: 'Your Favorites Only', description: 'Show only quotes you\'ve marked as favorites' },
-    { value: 'BOTH', label: 'Mixed Collection', description: 'Show both preloaded and your custom quotes' },
+  const quoteSources: { value: QuoteSourceKind; label: string; description: string }[] = [
+    { value: 'PRELOADED', label: 'Preloaded Quotes', description: 'Curated quotes from our collection' },
+    { value: 'CUSTOM', label: 'Your Custom Quotes', description: 'Quotes you\'ve added yourself' },
+    { value: 'FAVORITES', label: 'Your Favorites', description: 'Quotes you\'ve marked as favorites, from either collection' },
+  ]
+  const selectedSources = settings.quoteSources ?? ['PRELOADED', 'CUSTOM']
+
+  // Keep the fixed source order; at least one source stays selected
+  const toggleSource = (source: QuoteSourceKind, checked: boolean) => {
+    const next = quoteSources
+      .map(option => option.value)
+      .filter(value => value === source ? checked : selectedSources.includes(value))
+    if (next.length === 0) return
+    setSettings(prev => ({ ...prev, quoteSources: next }))
+  }
+
+  const rotationStyles = [
+    { value: 'WEIGHTED', label: 'Smart Shuffle', description: 'Every quote once per round, with your boosts below applied' },
+    { value: 'SHUFFLE', label: 'Plain Shuffle', description: 'Every quote once per round, all equally likely' },
+    { value: 'RANDOM', label: 'Random', description: 'Independent random picks; a quote can come back soon' },
+    { value: 'DAILY', label: 'Quote of the Day', description: 'Stay on today\'s quote' },
+  ]
+
+  const repeatWindows = [
+    { value: 30, label: '1 month' },
+    { value: 90, label: '3 months' },
+    { value: 180, label: '6 months' },
+    { value: 365, label: '1 year' },
+    { value: 730, label: '2 years' },
+  ]
+
+  const historyWindows = [
+    { value: 0, label: 'Off (fully random)' },
+    { value: 1, label: '1 day' },
+    { value: 7, label: '1 week' },
+    { value: 30, label: '1 month' },
+    { value: 90, label: '3 months' },
   ]
 
+  const boostLevels = [
+    { value: 1, label: 'No boost' },
+    { value: 1.5, label: '1.5× as likely' },
+    { value: 2, label: '2× as likely' },
+    { value: 3, label: '3× as likely' },
+    { value: 5, label: '5× as likely' },
+    { value: 10, label: '10× as likely' },
+  ]
+
+  const boosts = [
+    { key: 'favoriteWeight', label: 'Favorites', fallback: 3 },
+    { key: 'newQuoteWeight', label: 'Quotes you added in the last two weeks', fallback: 2 },
+    { key: 'unseenWeight', label: 'Quotes you\'ve never been shown', fallback: 2 },
+  ] as const
+
+  const timezones = Intl.supportedValuesOf('timeZone')
+
   const themes = [
     { value: 'LIGHT', label: 'Light Theme' },
     { value: 'DARK', label: 'Dark Theme' },
@@ -152,6 +334,12 @@ export default function SettingsPage() {
           <h1 className="text-3xl font-bold text-gray-800 dark:text-white">
             Settings
           </h1>
+          <Link href="/settings/account" className="ml-auto">
+            <Button variant="outline" size="sm">
+              <UserCog className="h-4 w-4 mr-2" />
+              Account
+            </Button>
+          </Link>
         </div>
 
         <div className="space-y-6">
@@ -161,6 +349,35 @@ export default function SettingsPage() {
               <CardTitle>Quote Rotation</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div>
+                <Label>Rotation Style</Label>
+                <div className="mt-3 space-y-3">
+                  {rotationStyles.map(style => (
+                    <div key={style.value} className="flex items-start space-x-3">
+                      <input
+                        type="radio"
+                        id={`rotation-${style.value}`}
+                        name="rotationStrategy"
+                        value={style.value}
+                        checked={(settings.rotationStrategy ?? 'WEIGHTED') === style.value}
+                        onChange={(e) => setSettings(prev => ({
+                          ...prev,
+                          rotationStrategy: e.target.value as RotationStrategyName
+                        }))}
+                        className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      <div className="flex-1">
+                        <label htmlFor={`rotation-${style.value}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          {style.label}
+                        </label>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          {style.description}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
               <div>
                 <Label htmlFor="rotation-interval">Rotation Frequency</Label>
                 <select
@@ -182,6 +399,100 @@ export default function SettingsPage() {
                   How often to automatically show a new quote in full-screen mode
                 </p>
               </div>
+              <div>
+                <Label htmlFor="view-history-days">Avoid quotes seen within</Label>
+                <select
+                  id="view-history-days"
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  value={settings.viewHistoryDays ?? 7}
+                  onChange={(e) => setSettings(prev => ({
+                    ...prev,
+                    viewHistoryDays: parseInt(e.target.value)
+                  }))}
+                >
+                  {historyWindows.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Recently seen quotes come up again only after everything else has been shown.{' '}
+                  <Link href="/history" className="underline">View history</Link>
+                </p>
+              </div>
+              {boosts.map(boost => (
+                <div key={boost.key}>
+                  <Label htmlFor={boost.key}>{boost.label}</Label>
+                  <select
+                    id={boost.key}
+                    className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    value={settings[boost.key] ?? boost.fallback}
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      [boost.key]: parseFloat(e.target.value)
+                    }))}
+                  >
+                    {boostLevels.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Boosts multiply, so a new favorite you haven&apos;t seen yet gets all three.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Quote of the Day */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Quote of the Day</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="timezone">Timezone</Label>
+                <select
+                  id="timezone"
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  value={settings.timezone ?? ''}
+                  onChange={(e) => setSettings(prev => ({
+                    ...prev,
+                    timezone: e.target.value || null
+                  }))}
+                >
+                  <option value="">Use this browser&apos;s timezone</option>
+                  {timezones.map(timezone => (
+                    <option key={timezone} value={timezone}>
+                      {timezone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  A new quote of the day starts at midnight in this timezone
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="repeat-window">Don&apos;t repeat a quote of the day within</Label>
+                <select
+                  id="repeat-window"
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  value={settings.dailyRepeatWindow ?? 365}
+                  onChange={(e) => setSettings(prev => ({
+                    ...prev,
+                    dailyRepeatWindow: parseInt(e.target.value)
+                  }))}
+                >
+                  {repeatWindows.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </CardContent>
           </Card>
 
@@ -193,23 +504,24 @@ export default function SettingsPage() {
             <CardContent className="space-y-4">
               <div>
                 <Label>Which quotes would you like to see?</Label>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Pick any mix. Choose only favorites for a favorites-only rotation.
+                </p>
                 <div className="mt-3 space-y-3">
                   {quoteSources.map(source => (
                     <div key={source.value} className="flex items-start space-x-3">
                       <input
-                        type="radio"
-                        id={source.value}
-                        name="quoteSource"
+                        type="checkbox"
+                        id={`source-${source.value}`}
                         value={source.value}
-                        checked={settings.quoteSource === source.value}
-                        onChange={(e) => setSettings(prev => ({ 
-                          ...prev, 
-                          quoteSource: e.target.value as 'PRELOADED' | 'CUSTOM' | 'FAVORITES' | 'BOTH'
-                        }))}
-                        className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                        checked={selectedSources.includes(source.value)}
+                        // The last selected source can't be unchecked
+                        disabled={selectedSources.length === 1 && selectedSources[0] === source.value}
+                        onChange={(e) => toggleSource(source.value, e.target.checked)}
+                        className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                       />
                       <div className="flex-1">
-                        <label htmlFor={source.value} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        <label htmlFor={`source-${source.value}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                           {source.label}
                         </label>
                         <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -220,6 +532,90 @@ export default function SettingsPage() {
                   ))}
                 </div>
               </div>
+              <div>
+                <Label htmlFor="rotation-collection">Or play one of your collections</Label>
+                <select
+                  id="rotation-collection"
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  value={settings.collectionId ?? ''}
+                  onChange={(e) => setSettings(prev => ({ ...prev, collectionId: e.target.value || null }))}
+                >
+                  <option value="">No collection (use the sources above)</option>
+                  {collections?.map(collection => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name} ({collection.quoteCount})
+                    </option>
+                  ))}
+                </select>
+                {settings.collectionId && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    Rotation plays only this collection; sources and categories are ignored.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Categories */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Categories</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <Label>Only show quotes from these categories</Label>
+                <CategoryPicker
+                  className="mt-3"
+                  value={settings.categoryIds ?? []}
+                  onChange={(categoryIds) => setSettings(prev => ({ ...prev, categoryIds }))}
+                />
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                  Leave all unselected to rotate through every category
+                </p>
+              </div>
+
+              <div>
+                <Label>Your categories</Label>
+                <div className="mt-3 space-y-2">
+                  {categories?.filter(category => !category.isBuiltIn).map(category => (
+                    <div key={category.id} className="flex items-center justify-between">
+                      <CategoryBadge category={category} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Delete ${category.name}`}
+                        onClick={() => {
+                          if (window.confirm(`Delete the "${category.name}" category?`)) {
+                            deleteCategory.mutate(category.id)
+                          }
+                        }}
+                        disabled={deleteCategory.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <form onSubmit={handleCreateCategory} className="flex gap-2 mt-3">
+                  <Input
+                    value={newCategory.name}
+                    onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="New category name"
+                    maxLength={50}
+                  />
+                  <input
+                    type="color"
+                    aria-label="Category color"
+                    value={newCategory.color}
+                    onChange={(e) => setNewCategory(prev => ({ ...prev, color: e.target.value }))}
+                    className="h-10 w-12 rounded-md border border-gray-300 dark:border-gray-600"
+                  />
+                  <Button type="submit" variant="outline" disabled={createCategory.isPending}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add
+                  </Button>
+                </form>
+              </div>
             </CardContent>
           </Card>
 
@@ -303,6 +699,108 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          {/* Shared Links */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Shared Links</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!shareLinks?.length ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Use Share on a quote or collection to get a link anyone can open, no account needed.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {shareLinks.map(link => (
+                    <div key={link.id} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-800 dark:text-white truncate">
+                          {link.quote ? `“${link.quote.text}” — ${link.quote.author}` : `Collection: ${link.collection?.name}`}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                          <Eye className="h-3 w-3" />
+                          {link.viewCount} view{link.viewCount === 1 ? '' : 's'}
+                          {link.lastViewedAt && ` • last ${new Date(link.lastViewedAt).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Copy link"
+                        onClick={() => copyShareUrl(link)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (window.confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) {
+                            revokeShareLink.mutate(link.id)
+                          }
+                        }}
+                        disabled={revokeShareLink.isPending}
+                      >
+                        Revoke
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Connected Accounts */}
+          {!!oauthProviders?.length && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Connected Accounts</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {oauthProviders.map(provider => {
+                    const account = connections?.accounts.find(account => account.provider === provider.id)
+                    return (
+                      <div key={provider.id} className="flex items-center gap-3">
+                        <div className="flex-1">
+                          <p className="text-sm font-medium text-gray-800 dark:text-white">{provider.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {account ? 'Connected' : 'Not connected'}
+                          </p>
+                        </div>
+                        {account ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => disconnectAccount.mutate(account.id)}
+                            disabled={disconnectAccount.isPending}
+                          >
+                            Disconnect
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex items-center gap-2"
+                            onClick={() => signIn(provider.id, { callbackUrl: '/settings' })}
+                          >
+                            <Link2 className="h-4 w-4" />
+                            Connect
+                          </Button>
+                        )}
+                      </div>
+                    )
+                  })}
+                  {connections && !connections.hasPassword && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      You sign in without a password, so your last connected account can&apos;t be disconnected.
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Save Button */}
           <div className="flex justify-end">
             <Button
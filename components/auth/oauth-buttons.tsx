@@ -0,0 +1,50 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { getProviders, signIn } from 'next-auth/react'
+
+import { Button } from '@/components/ui/button'
+
+// The OAuth providers configured on the server, without credentials
+export function useOAuthProviders() {
+  return useQuery({
+    queryKey: ['auth-providers'],
+    queryFn: async () => {
+      const providers = await getProviders()
+      return Object.values(providers ?? {}).filter(provider => provider.type !== 'credentials')
+    },
+    staleTime: Infinity,
+  })
+}
+
+interface OAuthButtonsProps {
+  callbackUrl: string
+}
+
+// One button per provider; renders nothing when only credentials are enabled
+export function OAuthButtons({ callbackUrl }: OAuthButtonsProps) {
+  const { data: providers } = useOAuthProviders()
+
+  if (!providers?.length) return null
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center gap-2 text-xs uppercase text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        or continue with
+        <span className="h-px flex-1 bg-border" />
+      </div>
+      {providers.map(provider => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => signIn(provider.id, { callbackUrl })}
+        >
+          {provider.name}
+        </Button>
+      ))}
+    </div>
+  )
+}
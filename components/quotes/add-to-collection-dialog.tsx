@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { Check, Plus } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+export interface Collection {
+  id: string
+  name: string
+  description: string | null
+  quoteCount: number
+  createdAt: string
+  updatedAt: string
+  hasQuote?: boolean
+}
+
+// The user's collections; with a quote ID each one says whether it holds that quote
+export function useCollections(enabled = true, quoteId?: string) {
+  return useQuery<Collection[]>({
+    queryKey: quoteId ? ['collections', quoteId] : ['collections'],
+    queryFn: async () => {
+      const params = quoteId ? `?${new URLSearchParams({ quoteId })}` : ''
+      const response = await fetch(`/api/collections${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch collections')
+      }
+      return response.json()
+    },
+    enabled,
+  })
+}
+
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const data = await response.json().catch(() => null)
+  return new Error(data?.error || fallback)
+}
+
+interface AddToCollectionDialogProps {
+  quoteId: string
+  children: React.ReactNode // The trigger
+}
+
+export function AddToCollectionDialog({ quoteId, children }: AddToCollectionDialogProps) {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const { data: collections, isLoading } = useCollections(open, quoteId)
+
+  const invalidate = (collectionId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['collections'] })
+    queryClient.invalidateQueries({ queryKey: ['collection', collectionId] })
+  }
+
+  // Add to or remove from one collection
+  const toggleQuote = useMutation({
+    mutationFn: async ({ collectionId, hasQuote }: { collectionId: string; hasQuote: boolean }) => {
+      const response = await fetch(`/api/collections/${collectionId}/quotes`, {
+        method: hasQuote ? 'DELETE' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId }),
+      })
+      if (!response.ok) {
+        throw await readError(response, 'Failed to update collection')
+      }
+      return collectionId
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  // Create a collection that starts with this quote
+  const createCollection = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      if (!response.ok) {
+        throw await readError(response, 'Failed to create collection')
+      }
+      const collection: Collection = await response.json()
+
+      const added = await fetch(`/api/collections/${collection.id}/quotes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ quoteId }),
+      })
+      if (!added.ok) {
+        throw await readError(added, 'Failed to add quote')
+      }
+      return collection
+    },
+    onSuccess: (collection) => {
+      invalidate(collection.id)
+      setNewName('')
+      toast.success(`Added to ${collection.name}`)
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+    createCollection.mutate(newName.trim())
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add to collection</DialogTitle>
+          <DialogDescription>
+            Keep this quote in any of your collections.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading collections...</p>
+          ) : !collections?.length ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              You don&apos;t have any collections yet. Name one below to start.
+            </p>
+          ) : (
+            collections.map(collection => (
+              <button
+                key={collection.id}
+                type="button"
+                onClick={() => toggleQuote.mutate({ collectionId: collection.id, hasQuote: !!collection.hasQuote })}
+                disabled={toggleQuote.isPending}
+                className="w-full flex items-center justify-between rounded-md border border-gray-200 dark:border-gray-700 px-3 py-2 text-left hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-60"
+              >
+                <span>
+                  <span className="block font-medium text-gray-800 dark:text-white">{collection.name}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {collection.quoteCount} quote{collection.quoteCount === 1 ? '' : 's'}
+                  </span>
+                </span>
+                {collection.hasQuote ? (
+                  <Check className="h-4 w-4 text-green-600" />
+                ) : (
+                  <Plus className="h-4 w-4 text-gray-400" />
+                )}
+              </button>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection name"
+            maxLength={80}
+          />
+          <Button type="submit" disabled={!newName.trim() || createCollection.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
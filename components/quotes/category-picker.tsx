@@ -0,0 +1,87 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+
+import type { CategorySummary } from '@/lib/categories'
+import { cn } from '@/lib/utils'
+
+// As listed by GET /api/categories; quotes carry just the summary
+export interface Category extends CategorySummary {
+  description?: string | null
+  isBuiltIn?: boolean
+}
+
+interface CategoryPickerProps {
+  value: string[]
+  onChange: (categoryIds: string[]) => void
+  className?: string
+}
+
+export function useCategories(enabled = true) {
+  return useQuery<Category[]>({
+    queryKey: ['categories'],
+    queryFn: async () => {
+      const response = await fetch('/api/categories')
+      if (!response.ok) {
+        throw new Error('Failed to fetch categories')
+      }
+      return response.json()
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function CategoryBadge({ category }: { category: Pick<Category, 'name' | 'color'> }) {
+  return (
+    <span
+      className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+      style={category.color ? { backgroundColor: `${category.color}26`, color: category.color } : undefined}
+    >
+      {category.name}
+    </span>
+  )
+}
+
+// Toggleable chips for choosing any number of categories
+export function CategoryPicker({ value, onChange, className }: CategoryPickerProps) {
+  const { data: categories, isLoading } = useCategories()
+
+  const toggle = (id: string) => {
+    onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id])
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading categories...</p>
+  }
+
+  if (!categories?.length) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No categories available.</p>
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {categories.map(category => {
+        const selected = value.includes(category.id)
+        return (
+          <button
+            key={category.id}
+            type="button"
+            aria-pressed={selected}
+            title={category.description ?? undefined}
+            onClick={() => toggle(category.id)}
+            className={cn(
+              'rounded-full border px-3 py-1 text-sm transition-colors',
+              selected
+                ? 'border-transparent text-white'
+                : 'border-gray-300 text-gray-700 hover:bg-gray-100 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+            )}
+            style={selected ? { backgroundColor: category.color ?? '#2563eb' } : undefined}
+          >
+            {category.name}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import Link from 'next/link'
+import { Sun } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { CategoryBadge, type Category } from '@/components/quotes/category-picker'
+
+interface DailyQuoteResponse {
+  date: string
+  timezone: string
+  quote: {
+    id: string
+    text: string
+    author: string
+    authorSlug?: string | null
+    categories: Category[]
+  } | null
+}
+
+// "2025-03-14" -> "Friday, March 14" without shifting through the local zone
+function formatDay(date: string) {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+export function DailyQuoteCard() {
+  const { data } = useQuery<DailyQuoteResponse>({
+    queryKey: ['daily-quote'],
+    queryFn: async () => {
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone
+      const response = await fetch(`/api/quotes/daily?tz=${encodeURIComponent(tz)}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch quote of the day')
+      }
+      return response.json()
+    },
+    // Pick up the next day's quote if the page stays open past midnight
+    refetchInterval: 15 * 60 * 1000,
+  })
+
+  if (!data?.quote) return null
+
+  const { quote } = data
+
+  return (
+    <Card className="mb-8 overflow-hidden border-0 bg-gradient-to-r from-amber-100 to-orange-100 dark:from-amber-900/30 dark:to-orange-900/30">
+      <CardContent className="p-6 md:p-8">
+        <p className="flex items-center gap-2 text-sm font-medium uppercase tracking-wide text-amber-700 dark:text-amber-400">
+          <Sun className="h-4 w-4" />
+          Quote of the Day · {formatDay(data.date)}
+        </p>
+        <blockquote className="mt-3 text-xl md:text-2xl font-medium text-gray-800 dark:text-white leading-relaxed">
+          &ldquo;{quote.text}&rdquo;
+        </blockquote>
+        <cite className="mt-2 block font-semibold text-gray-600 dark:text-gray-300">
+          — {quote.authorSlug ? (
+            <Link href={`/authors/${quote.authorSlug}`} className="hover:underline">
+              {quote.author}
+            </Link>
+          ) : quote.author}
+        </cite>
+        {quote.categories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {quote.categories.map(category => (
+              <CategoryBadge key={category.id} category={category} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
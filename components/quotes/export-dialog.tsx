@@ -0,0 +1,107 @@
+'use client'
+
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { CategoryPicker } from '@/components/quotes/category-picker'
+import type { ExportFormat } from '@/lib/quote-export'
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'csv', label: 'CSV (re-importable)' },
+  { value: 'json', label: 'JSON' },
+  { value: 'md', label: 'Markdown' },
+  { value: 'html', label: 'Printable page (save as PDF)' },
+]
+
+// `source` param values: a comma-separated source set
+const SOURCES = [
+  { value: 'FAVORITES,CUSTOM', label: 'Favorites and my quotes' },
+  { value: 'FAVORITES', label: 'Favorites only' },
+  { value: 'CUSTOM', label: 'My quotes only' },
+]
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white'
+
+export function ExportDialog() {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [source, setSource] = useState(SOURCES[0].value)
+  const [categoryIds, setCategoryIds] = useState<string[]>([])
+
+  const params = new URLSearchParams({ format, source })
+  categoryIds.forEach(id => params.append('category', id))
+  const href = `/api/export?${params}`
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export quotes</DialogTitle>
+          <DialogDescription>
+            Download your favorites and custom quotes for newsletters, slides or backups.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="export-source">Quotes</Label>
+            <select
+              id="export-source"
+              className={selectClassName}
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+            >
+              {SOURCES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <Label htmlFor="export-format">Format</Label>
+            <select
+              id="export-format"
+              className={selectClassName}
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              {FORMATS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <Label>Categories (optional)</Label>
+            <CategoryPicker value={categoryIds} onChange={setCategoryIds} className="mt-2" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button asChild>
+            <a href={href} target={format === 'html' ? '_blank' : undefined} rel="noopener">
+              <Download className="h-4 w-4 mr-2" />
+              {format === 'html' ? 'Open printable page' : 'Download'}
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
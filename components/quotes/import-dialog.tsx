@@ -0,0 +1,214 @@
+'use client'
+
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { AlertTriangle, Copy, Upload } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import type { ImportPreview, ImportPreviewRow } from '@/lib/quote-import'
+
+async function readError(response: Response, fallback: string) {
+  const body = await response.json().catch(() => null)
+  return new Error(body?.error || fallback)
+}
+
+export function ImportDialog() {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+
+  const reset = () => {
+    setFileName(null)
+    setPreview(null)
+    setSelected(new Set())
+  }
+
+  const previewImport = useMutation({
+    mutationFn: async (file: File) => {
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv'
+      const response = await fetch('/api/quotes/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'preview', format, content: await file.text() }),
+      })
+      if (!response.ok) {
+        throw await readError(response, 'Failed to read file')
+      }
+      return response.json() as Promise<ImportPreview>
+    },
+    onSuccess: (result) => {
+      setPreview(result)
+      // Valid, non-duplicate rows are selected by default
+      setSelected(new Set(
+        result.rows.filter(row => row.errors.length === 0 && !row.duplicate).map(row => row.index)
+      ))
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const commitImport = useMutation({
+    mutationFn: async (rows: ImportPreviewRow[]) => {
+      const response = await fetch('/api/quotes/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'commit',
+          rows: rows.map(({ text, author, source, categories }) => ({ text, author, source, categories })),
+          // Near-duplicates the user explicitly ticked are imported anyway
+          skipDuplicates: false,
+        }),
+      })
+      if (!response.ok) {
+        throw await readError(response, 'Failed to import quotes')
+      }
+      return response.json()
+    },
+    onSuccess: (result: { imported: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['library'] })
+      queryClient.invalidateQueries({ queryKey: ['quotes'] })
+      toast.success(`Imported ${result.imported} quote${result.imported === 1 ? '' : 's'}`)
+      reset()
+      setOpen(false)
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setFileName(file.name)
+    setPreview(null)
+    previewImport.mutate(file)
+  }
+
+  const toggleRow = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) {
+        next.delete(index)
+      } else {
+        next.add(index)
+      }
+      return next
+    })
+  }
+
+  const selectedRows = preview?.rows.filter(row => selected.has(row.index)) ?? []
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (!next) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import quotes</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with Author and Quote columns (optional Source and Categories), or a JSON array of
+            {' '}{'{ text, author, source, categories }'} objects.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center justify-center gap-2 border-2 border-dashed rounded-md p-4 cursor-pointer text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800">
+          <Upload className="h-4 w-4" />
+          {previewImport.isPending ? 'Reading file...' : fileName ?? 'Choose a .csv or .json file'}
+          <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+        </label>
+
+        {preview && (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {preview.summary.total} rows · {preview.summary.valid} valid · {preview.summary.invalid} invalid · {preview.summary.duplicates} possible duplicates
+            </p>
+
+            <div className="max-h-80 overflow-y-auto border rounded-md divide-y">
+              {preview.rows.map(row => {
+                const invalid = row.errors.length > 0
+                // Never imported, so there's nothing to tick
+                const skipped = invalid || !!row.duplicate?.exact
+                return (
+                  <label
+                    key={row.index}
+                    className={`flex items-start gap-3 p-3 text-sm ${skipped ? 'opacity-60' : 'cursor-pointer'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(row.index)}
+                      onChange={() => toggleRow(row.index)}
+                      disabled={skipped}
+                      className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-gray-800 dark:text-gray-200">
+                        &ldquo;{row.text || <em>empty</em>}&rdquo; — {row.author || <em>unknown</em>}
+                      </p>
+                      {invalid && (
+                        <p className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                          <AlertTriangle className="h-3 w-3" />
+                          {row.errors.join('; ')}
+                        </p>
+                      )}
+                      {row.duplicate && (
+                        <p className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                          <Copy className="h-3 w-3" />
+                          {row.duplicate.exact ? 'Duplicate of' : `${Math.round(row.duplicate.similarity * 100)}% similar to`}
+                          {' '}{row.duplicate.quoteId ? 'an existing quote' : 'an earlier row'} by {row.duplicate.author}
+                          {row.duplicate.exact && ' (skipped)'}
+                        </p>
+                      )}
+                      {row.unknownCategories.length > 0 && (
+                        <p className="text-gray-500 dark:text-gray-400">
+                          Unknown categories ignored: {row.unknownCategories.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => commitImport.mutate(selectedRows)}
+            disabled={selectedRows.length === 0 || commitImport.isPending}
+          >
+            {commitImport.isPending
+              ? 'Importing...'
+              : `Import ${selectedRows.length} quote${selectedRows.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import Image from 'next/image'
+import { useTheme } from 'next-themes'
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+
+type ImageFormat = 'square' | 'story' | 'banner'
+
+// Sizes mirror QUOTE_IMAGE_FORMATS in lib/quote-image, which is server-only
+const FORMATS: Array<{ value: ImageFormat; label: string; width: number; height: number }> = [
+  { value: 'square', label: 'Square', width: 1080, height: 1080 },
+  { value: 'story', label: 'Story', width: 1080, height: 1920 },
+  { value: 'banner', label: 'Banner', width: 1500, height: 500 },
+]
+
+interface QuoteImageDialogProps {
+  quoteId: string
+  children: React.ReactNode // The trigger
+}
+
+// Preview and download the quote as a PNG card
+export function QuoteImageDialog({ quoteId, children }: QuoteImageDialogProps) {
+  const [format, setFormat] = useState<ImageFormat>('square')
+  const { resolvedTheme } = useTheme()
+
+  // Send the theme on screen so SYSTEM matches what the user sees
+  const params = new URLSearchParams({ format, theme: resolvedTheme === 'dark' ? 'dark' : 'light' })
+  const src = `/api/quotes/${quoteId}/image?${params}`
+  const { width, height } = FORMATS.find(option => option.value === format)!
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Quote image</DialogTitle>
+          <DialogDescription>
+            A card in your theme and font size, ready to post.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          {FORMATS.map(option => (
+            <Button
+              key={option.value}
+              variant={format === option.value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setFormat(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex justify-center rounded-md bg-gray-100 dark:bg-gray-800 p-2">
+          <Image
+            key={src}
+            src={src}
+            alt="Quote image preview"
+            width={width}
+            height={height}
+            unoptimized
+            className="max-h-[50vh] w-auto h-auto rounded shadow"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button asChild>
+            <a href={`${src}&download=true`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Download PNG
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useDebounce } from 'react-use'
+import { Heart, Search } from 'lucide-react'
+
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+
+interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+export interface SearchResult {
+  id: string
+  text: string
+  author: string
+  categories?: { id: string; slug: string; name: string; color: string | null }[]
+  source?: string
+  isPreloaded: boolean
+  isFavorited: boolean
+  createdAt: string
+  rank: number
+  highlights: {
+    text: HighlightSegment[]
+    author: HighlightSegment[]
+  }
+}
+
+interface QuoteSearchProps {
+  onSelect: (quote: SearchResult) => void
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  )
+}
+
+export function QuoteSearch({ onSelect }: QuoteSearchProps) {
+  const [search, setSearch] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+
+  useDebounce(() => setDebouncedSearch(search.trim()), 300, [search])
+
+  const { data, isFetching } = useQuery<{ results: SearchResult[]; total: number }>({
+    queryKey: ['quotes', 'search', debouncedSearch],
+    queryFn: async () => {
+      const response = await fetch(`/api/quotes/search?q=${encodeURIComponent(debouncedSearch)}`)
+      if (!response.ok) {
+        throw new Error('Failed to search quotes')
+      }
+      return response.json()
+    },
+    enabled: debouncedSearch.length > 0,
+  })
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            autoFocus
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder='Search quotes and authors, e.g. "edison genius"'
+            className="pl-9"
+          />
+        </div>
+
+        {isFetching && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Searching...</p>
+        )}
+
+        {!isFetching && debouncedSearch && data?.results.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No quotes found.</p>
+        )}
+
+        {data && data.results.length > 0 && (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {data.results.map(result => (
+              <li key={result.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(result)}
+                  className="w-full text-left py-3 px-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <p className="text-gray-800 dark:text-white">
+                    &ldquo;<Highlighted segments={result.highlights.text} />&rdquo;
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 flex items-center gap-2">
+                    <span>— <Highlighted segments={result.highlights.author} /></span>
+                    {result.isFavorited && <Heart className="h-3 w-3 text-red-500 fill-current" />}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
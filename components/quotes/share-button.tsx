@@ -0,0 +1,88 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import toast from 'react-hot-toast'
+import { Share2 } from 'lucide-react'
+
+import { Button, type ButtonProps } from '@/components/ui/button'
+
+export interface ShareLink {
+  id: string
+  token: string
+  path: string
+  viewCount: number
+  lastViewedAt: string | null
+  createdAt: string
+  quote: { id: string; text: string; author: string } | null
+  collection: { id: string; name: string } | null
+}
+
+export function useShareLinks(enabled = true) {
+  return useQuery<ShareLink[]>({
+    queryKey: ['shares'],
+    queryFn: async () => {
+      const response = await fetch('/api/shares')
+      if (!response.ok) {
+        throw new Error('Failed to fetch share links')
+      }
+      return response.json()
+    },
+    enabled,
+  })
+}
+
+export function shareUrl(link: Pick<ShareLink, 'path'>): string {
+  return `${window.location.origin}${link.path}`
+}
+
+// Copy, falling back to the URL in a toast when the clipboard isn't available
+export async function copyShareUrl(link: Pick<ShareLink, 'path'>) {
+  const url = shareUrl(link)
+  try {
+    await navigator.clipboard.writeText(url)
+    toast.success('Link copied to clipboard')
+  } catch {
+    toast(url, { duration: 10000 })
+  }
+}
+
+interface ShareButtonProps extends Omit<ButtonProps, 'onClick'> {
+  target: { quoteId: string } | { collectionId: string }
+}
+
+// Creates (or reuses) a public link and copies it
+export function ShareButton({ target, children, disabled, ...props }: ShareButtonProps) {
+  const queryClient = useQueryClient()
+
+  const share = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to create share link')
+      }
+      return response.json() as Promise<ShareLink>
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ['shares'] })
+      return copyShareUrl(link)
+    },
+    onError: () => {
+      toast.error('Failed to create share link')
+    },
+  })
+
+  return (
+    <Button {...props} onClick={() => share.mutate()} disabled={disabled || share.isPending}>
+      {children ?? (
+        <>
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </>
+      )}
+    </Button>
+  )
+}
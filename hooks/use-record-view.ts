@@ -0,0 +1,17 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Record the displayed quote in the user's view history
+export function useRecordView(quoteId: string | null | undefined) {
+  useEffect(() => {
+    if (!quoteId) return
+
+    // Best effort: a missed view only makes a repeat slightly more likely
+    fetch('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ quoteId })
+    }).catch(() => {})
+  }, [quoteId])
+}
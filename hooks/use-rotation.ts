@@ -0,0 +1,75 @@
+'use client'
+
+import { useCallback, useEffect, useReducer } from 'react'
+import toast from 'react-hot-toast'
+import {
+  initialRotationState,
+  needsBatch,
+  ROTATION_STRATEGIES,
+  rotationReducer,
+  type RotationQuote,
+  type RotationStrategyName
+} from '@/lib/rotation-engine'
+
+interface UseRotationOptions {
+  strategy?: RotationStrategyName // Undefined while preferences load; nothing is fetched
+  batchSize?: number // How many quotes to fetch at once
+  prefetchThreshold?: number // When to fetch next batch
+}
+
+export function useRotation({ strategy, batchSize = 10, prefetchThreshold = 3 }: UseRotationOptions) {
+  const [state, dispatch] = useReducer(rotationReducer, initialRotationState)
+
+  useEffect(() => {
+    if (strategy) dispatch({ type: 'start', strategy })
+  }, [strategy])
+
+  // Keep the queue topped up
+  useEffect(() => {
+    if (!state.strategy || !needsBatch(state, prefetchThreshold)) return
+
+    const { cursor, restart } = state
+    dispatch({ type: 'request', requestId: state.requestId })
+    const requestId = state.requestId + 1
+
+    ROTATION_STRATEGIES[state.strategy]
+      .fetchBatch({ limit: batchSize, cursor, restart })
+      .then(batch => {
+        dispatch({ type: 'loaded', requestId, batch })
+        if (batch.reshuffled) {
+          toast.success('Reshuffled all quotes for fresh randomness!')
+        }
+      })
+      .catch(() => {
+        dispatch({ type: 'failed', requestId })
+        toast.error('Failed to load quotes')
+      })
+  }, [state, batchSize, prefetchThreshold])
+
+  const next = useCallback(() => dispatch({ type: 'next' }), [])
+  const show = useCallback((quote: RotationQuote) => dispatch({ type: 'show', quote }), [])
+  const update = useCallback(
+    (quote: Partial<RotationQuote> & { id: string }) => dispatch({ type: 'update', quote }),
+    []
+  )
+  const remove = useCallback((id: string) => dispatch({ type: 'remove', id }), [])
+  // Start a fresh order (e.g. after adding a quote)
+  const reset = useCallback(() => dispatch({ type: 'reset' }), [])
+
+  return {
+    currentQuote: state.current,
+    queuedCount: state.queue.length,
+    total: state.total,
+    shown: state.shown,
+    isLoading: state.status === 'loading',
+    // Loading hasn't produced anything yet
+    isPending: !state.current && (state.status === 'idle' || state.status === 'loading'),
+    hasError: state.status === 'error' && !state.current,
+    canAdvance: state.queue.length > 0 || state.status !== 'exhausted',
+    next,
+    show,
+    update,
+    remove,
+    reset,
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Account management
+ *
+ * Changing the password or email and deleting the account. Each of these asks
+ * for the current password when the user has one (users who only sign in with
+ * OAuth have nothing to confirm with), and those checks are rate limited per
+ * user so a stolen session can't be used to guess it.
+ *
+ * Changing the password signs out every session, including the current one
+ * (see the jwt callback in lib/auth.ts). A new email only takes effect once a
+ * link sent to it is followed; until then the old address keeps working. Deleting removes the User row and lets
+ * the cascades take everything else; exportAccountData is offered first.
+ */
+
+import bcrypt from 'bcryptjs'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sendEmailChangeEmail } from '@/lib/auth-emails'
+import { enforceRateLimit, normalizeEmail, RATE_LIMITS } from '@/lib/rate-limit'
+import { consumeToken, revokeAllTokens, revokeTokens } from '@/lib/verification-tokens'
+
+export class IncorrectPasswordError extends Error {
+  constructor(message = 'Current password is incorrect') {
+    super(message)
+    this.name = 'IncorrectPasswordError'
+  }
+}
+
+export class EmailInUseError extends Error {
+  constructor(message = 'Another account already uses that email') {
+    super(message)
+    this.name = 'EmailInUseError'
+  }
+}
+
+export class ConfirmationMismatchError extends Error {
+  constructor(message = 'Type your email exactly to confirm') {
+    super(message)
+    this.name = 'ConfirmationMismatchError'
+  }
+}
+
+const accountUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  password: true,
+  emailVerified: true,
+  createdAt: true
+} satisfies Prisma.UserSelect
+
+type AccountUser = Prisma.UserGetPayload<{ select: typeof accountUserSelect }>
+
+async function findAccountUser(userId: string): Promise<AccountUser> {
+  return prisma.user.findUniqueOrThrow({ where: { id: userId }, select: accountUserSelect })
+}
+
+async function checkCurrentPassword(user: AccountUser, currentPassword: string | undefined): Promise<void> {
+  if (!user.password) return
+
+  await enforceRateLimit(RATE_LIMITS.currentPassword, `current-password:user:${user.id}`)
+  if (!currentPassword || !(await bcrypt.compare(currentPassword, user.password))) {
+    throw new IncorrectPasswordError()
+  }
+}
+
+export async function getAccount(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { ...accountUserSelect, _count: { select: { accounts: true } } }
+  })
+  if (!user) return null
+
+  const { password, _count, ...account } = user
+  return {
+    ...account,
+    hasPassword: password !== null,
+    connectedAccounts: _count.accounts,
+    emailVerified: account.emailVerified?.toISOString() ?? null,
+    createdAt: account.createdAt.toISOString()
+  }
+}
+
+// OAuth-only users may set a first password without a current one
+export async function changePassword(userId: string, currentPassword: string | undefined, newPassword: string) {
+  const user = await findAccountUser(userId)
+  await checkCurrentPassword(user, currentPassword)
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { password: await bcrypt.hash(newPassword, 10), sessionVersion: { increment: 1 } }
+  })
+  // Reset links sent before the change shouldn't be able to undo it
+  await revokeTokens('reset-password', userId)
+}
+
+export async function requestEmailChange(userId: string, newEmail: string, currentPassword: string | undefined) {
+  const user = await findAccountUser(userId)
+  await checkCurrentPassword(user, currentPassword)
+
+  const existing = await prisma.user.findUnique({ where: { email: newEmail }, select: { id: true } })
+  if (existing) {
+    throw new EmailInUseError(existing.id === userId ? 'That is already your email' : undefined)
+  }
+
+  await enforceRateLimit(RATE_LIMITS.emailLink, `email-link:email:${normalizeEmail(newEmail)}`)
+  // Only the latest request stands; links sent to other addresses stop working
+  await revokeTokens('change-email', userId)
+  await sendEmailChangeEmail(user, newEmail)
+}
+
+// Redeems a change-email link. False when the link is invalid or expired.
+export async function confirmEmailChange(token: string): Promise<boolean> {
+  const subject = await consumeToken('change-email', token)
+  if (!subject?.email) return false
+
+  try {
+    const { count } = await prisma.user.updateMany({
+      where: { id: subject.userId },
+      data: { email: subject.email, emailVerified: new Date() }
+    })
+    if (count === 0) return false
+  } catch (error) {
+    // Someone else took the address after the link was sent
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new EmailInUseError()
+    }
+    throw error
+  }
+
+  // Links sent to the old address no longer apply
+  await revokeTokens('reset-password', subject.userId)
+  await revokeTokens('verify-email', subject.userId)
+  return true
+}
+
+export async function deleteAccount(userId: string, confirmEmail: string, currentPassword: string | undefined) {
+  const user = await findAccountUser(userId)
+  if (normalizeEmail(confirmEmail) !== normalizeEmail(user.email)) {
+    throw new ConfirmationMismatchError()
+  }
+  await checkCurrentPassword(user, currentPassword)
+
+  await revokeAllTokens(userId)
+  await prisma.user.delete({ where: { id: userId } })
+}
+
+// Everything stored for the user, as one JSON-ready object. Secrets
+// (password hash, OAuth tokens) are left out.
+export async function exportAccountData(userId: string) {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: {
+      email: true,
+      name: true,
+      avatar: true,
+      emailVerified: true,
+      createdAt: true,
+      accounts: { select: { provider: true } },
+      preferences: {
+        omit: { id: true, userId: true },
+        include: { categories: { select: { name: true } }, collection: { select: { name: true } } }
+      },
+      customQuotes: {
+        select: {
+          text: true,
+          author: true,
+          source: true,
+          createdAt: true,
+          updatedAt: true,
+          categories: { select: { category: { select: { name: true } } } }
+        },
+        orderBy: { createdAt: 'asc' }
+      },
+      categories: { select: { name: true, description: true, color: true, createdAt: true } },
+      favorites: {
+        select: { createdAt: true, quote: { select: { text: true, author: true } } },
+        orderBy: { createdAt: 'asc' }
+      },
+      collections: {
+        select: {
+          name: true,
+          description: true,
+          createdAt: true,
+          items: {
+            select: { quote: { select: { text: true, author: true } } },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+          }
+        }
+      },
+      shareLinks: {
+        select: {
+          token: true,
+          viewCount: true,
+          revokedAt: true,
+          createdAt: true,
+          quote: { select: { text: true } },
+          collection: { select: { name: true } }
+        }
+      },
+      dailyQuotes: {
+        select: { date: true, timezone: true, quote: { select: { text: true, author: true } } },
+        orderBy: { date: 'asc' }
+      },
+      quoteViews: {
+        select: { viewedAt: true, quote: { select: { text: true, author: true } } },
+        orderBy: { viewedAt: 'asc' }
+      }
+    }
+  })
+
+  const { accounts, customQuotes, collections, ...rest } = user
+  return {
+    exportedAt: new Date().toISOString(),
+    ...rest,
+    connectedAccounts: accounts.map(account => account.provider),
+    customQuotes: customQuotes.map(({ categories, ...quote }) => ({
+      ...quote,
+      categories: categories.map(link => link.category.name)
+    })),
+    collections: collections.map(({ items, ...collection }) => ({
+      ...collection,
+      quotes: items.map(item => item.quote)
+    }))
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Account emails
+ *
+ * Verification, password reset and email change messages. Each one issues a
+ * fresh token (invalidating the previous link of the same kind) and links to
+ * the page under app/auth that redeems it. Links are built from NEXT_PUBLIC_APP_URL,
+ * falling back to NEXTAUTH_URL.
+ */
+
+import { sendMail } from '@/lib/mail'
+import { issueToken } from '@/lib/verification-tokens'
+
+interface MailRecipient {
+  id: string
+  email: string
+  name: string | null
+}
+
+function appUrl(pathname: string, params: Record<string, string>): string {
+  const base = process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const url = new URL(pathname, base)
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value)
+  }
+  return url.toString()
+}
+
+function greeting(user: MailRecipient): string {
+  return user.name ? `Hi ${user.name},` : 'Hi,'
+}
+
+export async function sendVerificationEmail(user: MailRecipient): Promise<void> {
+  const token = await issueToken('verify-email', { userId: user.id, email: user.email })
+  const link = appUrl('/auth/verify-email', { token })
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email for Inspiro',
+    text: [
+      greeting(user),
+      '',
+      'Confirm this address to finish setting up your Inspiro account:',
+      link,
+      '',
+      'The link works once and expires in 24 hours. If you didn\'t sign up, you can ignore this email.',
+    ].join('\n'),
+  })
+}
+
+export async function sendPasswordResetEmail(user: MailRecipient): Promise<void> {
+  const token = await issueToken('reset-password', { userId: user.id })
+  const link = appUrl('/auth/reset-password', { token })
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Inspiro password',
+    text: [
+      greeting(user),
+      '',
+      'Someone asked to reset the password for this account. Choose a new one here:',
+      link,
+      '',
+      'The link works once and expires in 1 hour. If it wasn\'t you, ignore this email and your password stays the same.',
+    ].join('\n'),
+  })
+}
+
+// Sent to the new address; the email only changes once this link is followed
+export async function sendEmailChangeEmail(user: MailRecipient, newEmail: string): Promise<void> {
+  const token = await issueToken('change-email', { userId: user.id, email: newEmail })
+  const link = appUrl('/auth/confirm-email', { token })
+
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new email for Inspiro',
+    text: [
+      greeting(user),
+      '',
+      `Follow this link to start using ${newEmail} for your Inspiro account instead of ${user.email}:`,
+      link,
+      '',
+      'The link works once and expires in 24 hours. If you didn\'t ask for this, ignore this email.',
+    ].join('\n'),
+  })
+
+  // Heads-up to the current address in case someone else is signed in as them
+  await sendMail({
+    to: user.email,
+    subject: 'Your Inspiro email is about to change',
+    text: [
+      greeting(user),
+      '',
+      `Someone signed in to your account asked to change its email to ${newEmail}. Nothing changes until that address confirms.`,
+      '',
+      'If this wasn\'t you, reset your password now.',
+    ].join('\n'),
+  })
+}
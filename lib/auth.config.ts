@@ -0,0 +1,50 @@
+/**
+ * Edge-safe auth configuration
+ *
+ * The part of the Auth.js setup that middleware.ts can load: the JWT session,
+ * the custom pages and the `authorized` check that guards signed-in pages.
+ * lib/auth.ts extends it with the adapter, providers and callbacks that need
+ * Prisma or bcrypt, which can't run in middleware.
+ */
+
+import type { NextAuthConfig } from 'next-auth'
+import { NextResponse } from 'next/server'
+
+// Pages that need a signed-in user; keep middleware.ts's matcher in step.
+// Share pages (/q, /c), the landing redirect and /auth stay public.
+export const PROTECTED_PAGES = ['/quotes', '/settings', '/library', '/collections', '/history', '/authors']
+
+export function isProtectedPage(pathname: string): boolean {
+  return PROTECTED_PAGES.some(page => pathname === page || pathname.startsWith(`${page}/`))
+}
+
+export const authConfig = {
+  session: {
+    strategy: 'jwt'
+  },
+  pages: {
+    signIn: '/auth/login',
+    signOut: '/auth/logout',
+    error: '/auth/error'
+  },
+  providers: [],
+  callbacks: {
+    // Signed-out visitors go to sign-in and come back afterwards. The
+    // callbackUrl stays relative so the login page can trust it.
+    authorized({ auth, request: { nextUrl } }) {
+      if (auth?.user || !isProtectedPage(nextUrl.pathname)) {
+        return true
+      }
+
+      const url = new URL('/auth/login', nextUrl.origin)
+      url.searchParams.set('callbackUrl', `${nextUrl.pathname}${nextUrl.search}`)
+      return NextResponse.redirect(url)
+    },
+    async session({ session, token }) {
+      if (token && session.user) {
+        session.user.id = token.id as string
+      }
+      return session
+    }
+  }
+} satisfies NextAuthConfig
@@ -1,24 +1,86 @@
-import NextAuth from 'next-auth'
+import NextAuth, { CredentialsSignin } from 'next-auth'
+import type { Adapter, AdapterUser } from 'next-auth/adapters'
+import type { Provider } from 'next-auth/providers'
 import Credentials from 'next-auth/providers/credentials'
+import GitHub from 'next-auth/providers/github'
+import Google from 'next-auth/providers/google'
 import { PrismaAdapter } from '@auth/prisma-adapter'
+import type { LoginFailureReason, User } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { authConfig } from '@/lib/auth.config'
+import { recordLoginFailure, recordLoginSuccess } from '@/lib/login-throttle'
+import { clientIp } from '@/lib/rate-limit'
 import bcrypt from 'bcryptjs'
 
+// OAuth providers switch on with their AUTH_<ID>_ID / _SECRET (and for the
+// generic OIDC provider, _ISSUER) env vars, so a plain checkout only offers
+// credentials. Google and OIDC vouch for the address through email_verified,
+// which lets a first sign-in attach to the existing user with that email if
+// that user has verified it as well (see the signIn callback); GitHub doesn't,
+// so it's connected from settings.
+function oauthProviders(): Provider[] {
+  const providers: Provider[] = []
+  if (process.env.AUTH_GITHUB_ID) {
+    providers.push(GitHub)
+  }
+  if (process.env.AUTH_GOOGLE_ID) {
+    providers.push(Google({ allowDangerousEmailAccountLinking: true }))
+  }
+  if (process.env.AUTH_OIDC_ISSUER) {
+    providers.push({
+      id: 'oidc',
+      name: process.env.AUTH_OIDC_NAME ?? 'Single sign-on',
+      type: 'oidc',
+      allowDangerousEmailAccountLinking: true,
+    })
+  }
+  return providers
+}
+
+// Surfaces to the client as `code` on the signIn() result
+class EmailNotVerifiedError extends CredentialsSignin {
+  code = 'email_not_verified'
+}
+
+function toAdapterUser(user: User): AdapterUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    image: user.avatar,
+    emailVerified: user.emailVerified,
+  }
+}
+
+// The stock adapter writes Auth.js's `image` field, which our User stores as `avatar`
+function prismaAdapter(): Adapter {
+  const adapter = PrismaAdapter(prisma)
+  return {
+    ...adapter,
+    async createUser({ email, name, image, emailVerified }) {
+      const user = await prisma.user.create({
+        data: { email, name, avatar: image, emailVerified },
+      })
+      return toAdapterUser(user)
+    },
+    async updateUser({ id, email, name, image, emailVerified }) {
+      const user = await prisma.user.update({
+        where: { id },
+        data: { email, name, avatar: image, emailVerified },
+      })
+      return toAdapterUser(user)
+    },
+  }
+}
+
 export const {
   handlers: { GET, POST },
   auth,
   signIn,
   signOut,
 } = NextAuth({
-  adapter: PrismaAdapter(prisma),
-  session: {
-    strategy: 'jwt',
-  },
-  pages: {
-    signIn: '/auth/login',
-    signOut: '/auth/logout',
-    error: '/auth/error',
-  },
+  ...authConfig,
+  adapter: prismaAdapter(),
   providers: [
     Credentials({
       name: 'credentials',
@@ -26,28 +88,53 @@ export const {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
       },
-      async authorize(credentials) {
+      // Rate limits and lockouts are checked before this runs (see the
+      // [...nextauth] route); here every outcome is recorded
+      async authorize(credentials, request) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
+        const email = credentials.email as string
         const user = await prisma.user.findUnique({
-          where: { email: credentials.email as string },
+          where: { email },
         })
 
-        if (!user || !user.password) {
+        const fail = async (reason: LoginFailureReason) => {
+          await recordLoginFailure({
+            email,
+            ip: clientIp(request),
+            userAgent: request.headers.get('user-agent'),
+            reason,
+            userId: user?.id,
+          })
           return null
         }
 
+        if (!user) {
+          return fail('UNKNOWN_EMAIL')
+        }
+        if (!user.password) {
+          return fail('NO_PASSWORD')
+        }
+
         const isPasswordValid = await bcrypt.compare(
           credentials.password as string,
           user.password
         )
 
         if (!isPasswordValid) {
-          return null
+          return fail('INVALID_PASSWORD')
         }
 
+        // Only after the password checks out, so this doesn't reveal which emails exist
+        if (!user.emailVerified) {
+          await fail('EMAIL_NOT_VERIFIED')
+          throw new EmailNotVerifiedError()
+        }
+
+        await recordLoginSuccess(email)
+
         return {
           id: user.id,
           email: user.email,
@@ -56,18 +143,86 @@ export const {
         }
       },
     }),
+    ...oauthProviders(),
   ],
+  events: {
+    // A provider that vouches for the address verifies it here too, so a
+    // password added later works without another email
+    async signIn({ user, account, profile }) {
+      if (account?.type !== 'oidc' || profile?.email_verified !== true || !profile.email || !user.id) {
+        return
+      }
+      await prisma.user.updateMany({
+        // A password on an unverified user was never proven to belong to
+        // this person; it still needs the email link
+        where: { id: user.id, email: profile.email, emailVerified: null, password: null },
+        data: { emailVerified: new Date() },
+      })
+    },
+  },
   callbacks: {
-    async session({ session, token }) {
-      if (token && session.user) {
-        session.user.id = token.id as string
+    ...authConfig.callbacks,
+    // Linking by email is only safe when the provider checked the address
+    // and the user it would join has proven it owns that address too.
+    // Otherwise someone could sign up with a victim's email and a password of
+    // their own, wait for the victim to sign in with Google, and keep access
+    // through the password. Already linked accounts always work.
+    async signIn({ account, profile }) {
+      if (account?.type !== 'oidc' || !profile?.email) {
+        return true
+      }
+
+      const linked = await prisma.account.findUnique({
+        where: {
+          provider_providerAccountId: {
+            provider: account.provider,
+            providerAccountId: account.providerAccountId,
+          },
+        },
+        select: { id: true },
+      })
+      if (linked) {
+        return true
+      }
+
+      const existing = await prisma.user.findUnique({
+        where: { email: profile.email },
+        select: { emailVerified: true },
+      })
+      if (!existing || (profile.email_verified === true && existing.emailVerified)) {
+        return true
       }
-      return session
+      return '/auth/error?error=OAuthAccountNotLinked'
     },
-    async jwt({ token, user }) {
+    // Runs whenever the session is read, so a deleted user or a bumped
+    // sessionVersion (password changed or reset) ends sessions issued before
+    // it on their next request. Returning null clears the session cookie.
+    async jwt({ token, user, trigger }) {
       if (user) {
         token.id = user.id
       }
+      if (!token.id) {
+        return token
+      }
+
+      const current = await prisma.user.findUnique({
+        where: { id: token.id as string },
+        select: { email: true, name: true, sessionVersion: true },
+      })
+      if (!current) {
+        return null
+      }
+      if (user) {
+        token.sessionVersion = current.sessionVersion
+      } else if ((token.sessionVersion ?? 0) !== current.sessionVersion) {
+        return null
+      }
+
+      // useSession().update() picks up an email changed since sign-in
+      if (trigger === 'update') {
+        token.email = current.email
+        token.name = current.name
+      }
       return token
     },
   },
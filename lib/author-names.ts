@@ -0,0 +1,107 @@
+/**
+ * Author name normalization
+ *
+ * Quote.author strings are folded to a key (case, accents, punctuation,
+ * middle initials and "St." removed; letters of any script kept, as in
+ * normalizeQuoteText) so "Leo F. Buscaglia" and
+ * "Leo Buscaglia" meet. Curated aliases in lib/author-profiles.ts cover
+ * the cases a key can't, like "Ralph Emerson" vs "Ralph Waldo Emerson".
+ *
+ * Pure functions only: shared by the API and prisma/normalize-authors.ts.
+ */
+
+import { AUTHOR_PROFILES, type AuthorProfile } from './author-profiles'
+import { slugify } from './utils'
+
+export interface AuthorGroup {
+  name: string
+  slug: string
+  aliases: string[]
+  nameKeys: string[]
+  profile: AuthorProfile | null
+}
+
+// Attributions that aren't a person and so get no author page
+const NOT_A_PERSON = /\b(proverb|saying|unknown|anonymous|anon)\b/i
+
+const IDEOGRAPHIC = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+export function authorKey(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(token => (token === 'st' ? 'saint' : token))
+    // Drop single-letter initials unless that's all there is; one CJK
+    // character can be a whole name part
+    .filter((token, _, tokens) => token.length > 1 || IDEOGRAPHIC.test(token) || tokens.length === 1)
+    .join(' ')
+}
+
+export function isPersonName(name: string): boolean {
+  return authorKey(name).length > 0 && !NOT_A_PERSON.test(name)
+}
+
+// Profile keyed by every normalized form of its name and aliases
+const PROFILES_BY_KEY = new Map<string, AuthorProfile>()
+for (const profile of AUTHOR_PROFILES) {
+  for (const name of [profile.name, ...(profile.aliases ?? [])]) {
+    PROFILES_BY_KEY.set(authorKey(name), profile)
+  }
+}
+
+export function findAuthorProfile(name: string): AuthorProfile | null {
+  return PROFILES_BY_KEY.get(authorKey(name)) ?? null
+}
+
+/**
+ * Group author strings (with how often each occurs) into canonical authors.
+ * A curated profile names its group; otherwise the most common spelling wins,
+ * with the longer spelling breaking ties.
+ */
+export function groupAuthorNames(counts: Map<string, number>): AuthorGroup[] {
+  const groups = new Map<string, { profile: AuthorProfile | null; variants: Map<string, number> }>()
+
+  for (const [name, count] of Array.from(counts.entries())) {
+    if (!isPersonName(name)) continue
+    const profile = findAuthorProfile(name)
+    const groupKey = profile ? authorKey(profile.name) : authorKey(name)
+    const group = groups.get(groupKey) ?? { profile, variants: new Map<string, number>() }
+    group.variants.set(name, (group.variants.get(name) ?? 0) + count)
+    groups.set(groupKey, group)
+  }
+
+  return Array.from(groups.values()).map(({ profile, variants }) => {
+    const ranked = Array.from(variants.entries())
+      .sort(([a, countA], [b, countB]) => countB - countA || b.length - a.length || a.localeCompare(b))
+      .map(([name]) => name)
+    const name = profile?.name ?? ranked[0]
+    const aliases = Array.from(new Set([...ranked, ...(profile?.aliases ?? [])]))
+      .filter(alias => alias !== name)
+      .sort((a, b) => a.localeCompare(b))
+
+    return {
+      name,
+      slug: slugify(name),
+      aliases,
+      nameKeys: Array.from(new Set([name, ...aliases].map(authorKey))),
+      profile,
+    }
+  })
+}
+
+// "1803–1882", "551–479 BCE", "born 1947"
+export function formatLifespan(birthYear: number | null, deathYear: number | null): string | null {
+  const format = (year: number) => (year < 0 ? `${-year} BCE` : `${year}`)
+  if (birthYear !== null && deathYear !== null) {
+    return birthYear < 0 && deathYear < 0
+      ? `${-birthYear}–${-deathYear} BCE`
+      : `${format(birthYear)}–${format(deathYear)}`
+  }
+  if (birthYear !== null) return `born ${format(birthYear)}`
+  if (deathYear !== null) return `died ${format(deathYear)}`
+  return null
+}
@@ -0,0 +1,383 @@
+// Curated author profiles used by prisma/normalize-authors.ts. Aliases list
+// spellings that plain normalization can't fold together (missing middle
+// names, nicknames); initials, accents and punctuation are handled already.
+// Years are negative for BCE. Kept free of imports so scripts can use it.
+
+export interface AuthorProfile {
+  name: string
+  aliases?: string[]
+  birthYear?: number
+  deathYear?: number
+  bio?: string
+}
+
+export const AUTHOR_PROFILES: AuthorProfile[] = [
+  {
+    name: 'Buddha',
+    aliases: ['Gautama Buddha', 'Siddhartha Gautama'],
+    bio: 'Spiritual teacher in ancient India whose teachings founded Buddhism.',
+  },
+  {
+    name: 'Confucius',
+    birthYear: -551,
+    deathYear: -479,
+    bio: 'Chinese philosopher whose sayings on ethics and government shaped East Asian thought.',
+  },
+  {
+    name: 'Lao Tzu',
+    aliases: ['Laozi'],
+    bio: 'Ancient Chinese philosopher traditionally credited with the Tao Te Ching.',
+  },
+  {
+    name: 'Ralph Waldo Emerson',
+    aliases: ['Ralph Emerson', 'Walt Emerson', 'Emerson'],
+    birthYear: 1803,
+    deathYear: 1882,
+    bio: 'American essayist and poet who led the Transcendentalist movement.',
+  },
+  {
+    name: 'Albert Einstein',
+    aliases: ['Einstein'],
+    birthYear: 1879,
+    deathYear: 1955,
+    bio: 'German-born theoretical physicist who developed the theory of relativity.',
+  },
+  {
+    name: 'Richard Bach',
+    birthYear: 1936,
+    bio: 'American writer best known for Jonathan Livingston Seagull.',
+  },
+  {
+    name: 'Wayne Dyer',
+    birthYear: 1940,
+    deathYear: 2015,
+    bio: 'American self-help author and motivational speaker.',
+  },
+  {
+    name: 'Napoleon Hill',
+    birthYear: 1883,
+    deathYear: 1970,
+    bio: 'American self-help author of Think and Grow Rich.',
+  },
+  {
+    name: 'Dalai Lama',
+    aliases: ['The Dalai Lama', 'Tenzin Gyatso'],
+    birthYear: 1935,
+    bio: 'The 14th Dalai Lama, spiritual leader of Tibetan Buddhism.',
+  },
+  {
+    name: 'Arnold Schwarzenegger',
+    birthYear: 1947,
+    bio: 'Austrian-American bodybuilder, actor and former Governor of California.',
+  },
+  {
+    name: 'Epictetus',
+    bio: 'Greek Stoic philosopher, born a slave, whose teachings were recorded in the Discourses.',
+  },
+  {
+    name: 'Abraham Lincoln',
+    birthYear: 1809,
+    deathYear: 1865,
+    bio: '16th President of the United States, who led the nation through the Civil War.',
+  },
+  {
+    name: 'Johann Wolfgang von Goethe',
+    aliases: ['Goethe', 'Johann Goethe'],
+    birthYear: 1749,
+    deathYear: 1832,
+    bio: 'German poet, playwright and scientist, author of Faust.',
+  },
+  {
+    name: 'Marcus Aurelius',
+    birthYear: 121,
+    deathYear: 180,
+    bio: 'Roman emperor and Stoic philosopher, author of the Meditations.',
+  },
+  {
+    name: 'Carl Jung',
+    aliases: ['Carl Gustav Jung'],
+    birthYear: 1875,
+    deathYear: 1961,
+    bio: 'Swiss psychiatrist who founded analytical psychology.',
+  },
+  {
+    name: 'Tony Robbins',
+    aliases: ['Anthony Robbins'],
+    birthYear: 1960,
+    bio: 'American author and life coach.',
+  },
+  {
+    name: 'Bruce Lee',
+    birthYear: 1940,
+    deathYear: 1973,
+    bio: 'Hong Kong-American martial artist, actor and philosopher.',
+  },
+  {
+    name: 'William Shakespeare',
+    aliases: ['Shakespeare'],
+    birthYear: 1564,
+    deathYear: 1616,
+    bio: 'English playwright and poet, widely regarded as the greatest writer in the English language.',
+  },
+  {
+    name: 'Aristotle',
+    birthYear: -384,
+    deathYear: -322,
+    bio: 'Greek philosopher, student of Plato and teacher of Alexander the Great.',
+  },
+  {
+    name: 'Winston Churchill',
+    aliases: ['Sir Winston Churchill'],
+    birthYear: 1874,
+    deathYear: 1965,
+    bio: 'British Prime Minister during the Second World War.',
+  },
+  {
+    name: 'Benjamin Disraeli',
+    birthYear: 1804,
+    deathYear: 1881,
+    bio: 'British statesman and novelist who twice served as Prime Minister.',
+  },
+  {
+    name: 'Seneca',
+    aliases: ['Lucius Annaeus Seneca'],
+    deathYear: 65,
+    bio: 'Roman Stoic philosopher, statesman and dramatist.',
+  },
+  {
+    name: 'Thich Nhat Hanh',
+    birthYear: 1926,
+    deathYear: 2022,
+    bio: 'Vietnamese Zen Buddhist monk and peace activist.',
+  },
+  {
+    name: 'Mark Twain',
+    birthYear: 1835,
+    deathYear: 1910,
+    bio: 'American writer and humorist, author of Adventures of Huckleberry Finn.',
+  },
+  {
+    name: 'Mother Teresa',
+    birthYear: 1910,
+    deathYear: 1997,
+    bio: 'Catholic nun who founded the Missionaries of Charity in Kolkata.',
+  },
+  {
+    name: 'Eleanor Roosevelt',
+    birthYear: 1884,
+    deathYear: 1962,
+    bio: 'American diplomat and activist, First Lady of the United States from 1933 to 1945.',
+  },
+  {
+    name: 'Helen Keller',
+    birthYear: 1880,
+    deathYear: 1968,
+    bio: 'American author and activist who was deaf and blind from early childhood.',
+  },
+  {
+    name: 'Oprah Winfrey',
+    aliases: ['Oprah'],
+    birthYear: 1954,
+    bio: 'American talk show host, producer and philanthropist.',
+  },
+  {
+    name: 'Leonardo da Vinci',
+    birthYear: 1452,
+    deathYear: 1519,
+    bio: 'Italian Renaissance painter, engineer and inventor.',
+  },
+  {
+    name: 'John Lennon',
+    birthYear: 1940,
+    deathYear: 1980,
+    bio: 'English singer and songwriter, co-founder of the Beatles.',
+  },
+  {
+    name: 'Maya Angelou',
+    birthYear: 1928,
+    deathYear: 2014,
+    bio: 'American poet and memoirist, author of I Know Why the Caged Bird Sings.',
+  },
+  {
+    name: 'Napoleon Bonaparte',
+    aliases: ['Napoleon'],
+    birthYear: 1769,
+    deathYear: 1821,
+    bio: 'French military leader and Emperor of the French.',
+  },
+  {
+    name: 'Albert Schweitzer',
+    birthYear: 1875,
+    deathYear: 1965,
+    bio: 'Alsatian theologian, physician and Nobel Peace Prize laureate.',
+  },
+  {
+    name: 'Pablo Picasso',
+    aliases: ['Picasso'],
+    birthYear: 1881,
+    deathYear: 1973,
+    bio: 'Spanish painter and sculptor, co-founder of Cubism.',
+  },
+  {
+    name: 'Blaise Pascal',
+    birthYear: 1623,
+    deathYear: 1662,
+    bio: 'French mathematician, physicist and philosopher, author of the Pensées.',
+  },
+  {
+    name: 'Mahatma Gandhi',
+    aliases: ['Mohandas Gandhi', 'Mohandas K. Gandhi', 'Gandhi'],
+    birthYear: 1869,
+    deathYear: 1948,
+    bio: 'Leader of the Indian independence movement and advocate of nonviolent resistance.',
+  },
+  {
+    name: 'Thomas Edison',
+    aliases: ['Thomas Alva Edison', 'Edison'],
+    birthYear: 1847,
+    deathYear: 1931,
+    bio: 'American inventor of the phonograph and a practical incandescent light bulb.',
+  },
+  {
+    name: 'Benjamin Franklin',
+    aliases: ['Ben Franklin'],
+    birthYear: 1706,
+    deathYear: 1790,
+    bio: 'American statesman, scientist and writer, one of the Founding Fathers.',
+  },
+  {
+    name: 'Henry David Thoreau',
+    aliases: ['Henry Thoreau', 'Thoreau'],
+    birthYear: 1817,
+    deathYear: 1862,
+    bio: 'American essayist and naturalist, author of Walden.',
+  },
+  {
+    name: 'George Bernard Shaw',
+    aliases: ['Bernard Shaw', 'George Shaw'],
+    birthYear: 1856,
+    deathYear: 1950,
+    bio: 'Irish playwright and critic, winner of the Nobel Prize in Literature.',
+  },
+  {
+    name: 'Robert Louis Stevenson',
+    aliases: ['Robert Stevenson'],
+    birthYear: 1850,
+    deathYear: 1894,
+    bio: 'Scottish novelist, author of Treasure Island.',
+  },
+  {
+    name: 'Oscar Wilde',
+    birthYear: 1854,
+    deathYear: 1900,
+    bio: 'Irish playwright and wit, author of The Importance of Being Earnest.',
+  },
+  {
+    name: 'Voltaire',
+    birthYear: 1694,
+    deathYear: 1778,
+    bio: 'French Enlightenment writer and philosopher.',
+  },
+  {
+    name: 'Thomas Carlyle',
+    aliases: ['Carlyle'],
+    birthYear: 1795,
+    deathYear: 1881,
+    bio: 'Scottish essayist and historian.',
+  },
+  {
+    name: 'Vince Lombardi',
+    aliases: ['Vincent Lombardi'],
+    birthYear: 1913,
+    deathYear: 1970,
+    bio: 'American football coach of the Green Bay Packers.',
+  },
+  {
+    name: 'Socrates',
+    deathYear: -399,
+    bio: 'Classical Greek philosopher known through the dialogues of Plato.',
+  },
+  {
+    name: 'Plato',
+    bio: 'Classical Greek philosopher who founded the Academy in Athens.',
+  },
+  {
+    name: 'Marie Curie',
+    birthYear: 1867,
+    deathYear: 1934,
+    bio: 'Polish-French physicist and chemist who pioneered research on radioactivity.',
+  },
+  {
+    name: 'Henri-Frederic Amiel',
+    aliases: ['Henri Amiel', 'Amiel'],
+    birthYear: 1821,
+    deathYear: 1881,
+    bio: 'Swiss philosopher and poet known for his posthumously published journal.',
+  },
+  {
+    name: 'Henry Ward Beecher',
+    aliases: ['Henry Beecher'],
+    birthYear: 1813,
+    deathYear: 1887,
+    bio: 'American clergyman and social reformer.',
+  },
+  {
+    name: 'Charlotte Perkins Gilman',
+    aliases: ['Charlotte Gilman'],
+    birthYear: 1860,
+    deathYear: 1935,
+    bio: 'American writer and feminist, author of The Yellow Wallpaper.',
+  },
+  {
+    name: 'William Ellery Channing',
+    aliases: ['William Channing', 'Channing'],
+    birthYear: 1780,
+    deathYear: 1842,
+    bio: 'American Unitarian preacher and theologian.',
+  },
+  {
+    name: 'Laurence J. Peter',
+    aliases: ['Lawrence Peter'],
+    birthYear: 1919,
+    deathYear: 1990,
+    bio: 'Canadian educator who formulated the Peter principle.',
+  },
+  {
+    name: 'Catherine Pulsifer',
+    aliases: ['Cathy Pulsifer', 'C. Pulsifer'],
+    bio: 'Canadian author of inspirational writing.',
+  },
+  {
+    name: 'William Arthur Ward',
+    aliases: ['William Ward'],
+    birthYear: 1921,
+    deathYear: 1994,
+    bio: 'American writer of inspirational maxims.',
+  },
+  {
+    name: 'Anne Wilson Schaef',
+    aliases: ['Anne Schaef'],
+    bio: 'American author and psychotherapist.',
+  },
+  {
+    name: 'John F. Kennedy',
+    aliases: ['John Kennedy', 'John Fitzgerald Kennedy', 'JFK'],
+    birthYear: 1917,
+    deathYear: 1963,
+    bio: '35th President of the United States.',
+  },
+  {
+    name: 'Franklin D. Roosevelt',
+    aliases: ['Franklin Roosevelt', 'Franklin Delano Roosevelt', 'FDR'],
+    birthYear: 1882,
+    deathYear: 1945,
+    bio: '32nd President of the United States.',
+  },
+  {
+    name: 'Saint Augustine',
+    aliases: ['Augustine of Hippo'],
+    birthYear: 354,
+    deathYear: 430,
+    bio: 'Theologian and philosopher, bishop of Hippo Regius, author of Confessions.',
+  },
+]
@@ -0,0 +1,63 @@
+/**
+ * Author lookups
+ *
+ * Authors are created by prisma/normalize-authors.ts from the preloaded
+ * corpus. New quotes link to an existing author when their author string
+ * normalizes to one of its nameKeys; unknown names stay unlinked so users'
+ * private attributions never become public author pages.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { authorKey, isPersonName } from '@/lib/author-names'
+
+export const authorSummarySelect = {
+  id: true,
+  slug: true,
+  name: true,
+  birthYear: true,
+  deathYear: true,
+} satisfies Prisma.AuthorSelect
+
+export async function resolveAuthorId(name: string): Promise<string | null> {
+  if (!isPersonName(name)) return null
+
+  const author = await prisma.author.findFirst({
+    where: { nameKeys: { has: authorKey(name) } },
+    select: { id: true }
+  })
+  return author?.id ?? null
+}
+
+// Resolve many author strings at once, keyed by the original string
+export async function resolveAuthorIds(names: string[]): Promise<Map<string, string>> {
+  const keysByName = new Map(
+    names.filter(isPersonName).map(name => [name, authorKey(name)])
+  )
+  const resolved = new Map<string, string>()
+  if (keysByName.size === 0) return resolved
+
+  const authors = await prisma.author.findMany({
+    where: { nameKeys: { hasSome: Array.from(new Set(keysByName.values())) } },
+    select: { id: true, nameKeys: true }
+  })
+  const idsByKey = new Map(authors.flatMap(a => a.nameKeys.map(key => [key, a.id] as const)))
+
+  for (const [name, key] of Array.from(keysByName.entries())) {
+    const authorId = idsByKey.get(key)
+    if (authorId) resolved.set(name, authorId)
+  }
+  return resolved
+}
+
+// Author slugs for a set of quotes, keyed by quote ID (linked quotes only)
+export async function getAuthorSlugsForQuotes(quoteIds: string[]): Promise<Map<string, string>> {
+  if (quoteIds.length === 0) return new Map()
+
+  const quotes = await prisma.quote.findMany({
+    where: { id: { in: quoteIds }, authorId: { not: null } },
+    select: { id: true, canonicalAuthor: { select: { slug: true } } }
+  })
+
+  return new Map(quotes.flatMap(q => (q.canonicalAuthor ? [[q.id, q.canonicalAuthor.slug] as const] : [])))
+}
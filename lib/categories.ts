@@ -0,0 +1,108 @@
+/**
+ * Category taxonomy
+ *
+ * Built-in categories have no owner (userId = null) and are shared by every
+ * user; users can add their own on top. Quotes link to categories through
+ * QuoteCategory so a quote can carry several of them.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { classifyQuote } from '@/lib/classifier'
+
+export interface CategorySummary {
+  id: string
+  slug: string
+  name: string
+  color: string | null
+}
+
+export const categorySummarySelect = {
+  id: true,
+  slug: true,
+  name: true,
+  color: true
+} satisfies Prisma.CategorySelect
+
+// Categories a user can see and assign: built-ins plus their own
+export function visibleCategoriesWhere(userId: string): Prisma.CategoryWhereInput {
+  return {
+    OR: [
+      { userId: null },
+      { userId }
+    ]
+  }
+}
+
+// Drop any IDs the user isn't allowed to use
+export async function filterVisibleCategoryIds(ids: string[], userId: string): Promise<string[]> {
+  if (ids.length === 0) return []
+  
+  const categories = await prisma.category.findMany({
+    where: {
+      id: { in: ids },
+      ...visibleCategoriesWhere(userId)
+    },
+    select: { id: true }
+  })
+  
+  return categories.map(c => c.id)
+}
+
+// Load category summaries for a set of quotes, keyed by quote ID
+export async function getCategoriesForQuotes(quoteIds: string[]): Promise<Map<string, CategorySummary[]>> {
+  const byQuote = new Map<string, CategorySummary[]>()
+  if (quoteIds.length === 0) return byQuote
+  
+  const links = await prisma.quoteCategory.findMany({
+    where: { quoteId: { in: quoteIds } },
+    select: {
+      quoteId: true,
+      category: { select: categorySummarySelect }
+    },
+    orderBy: { category: { name: 'asc' } }
+  })
+  
+  for (const link of links) {
+    const list = byQuote.get(link.quoteId) ?? []
+    list.push(link.category)
+    byQuote.set(link.quoteId, list)
+  }
+  
+  return byQuote
+}
+
+// Where clause matching quotes tagged with any of the given categories
+export function inCategoriesWhere(categoryIds: string[]): Prisma.QuoteWhereInput {
+  return {
+    categories: { some: { categoryId: { in: categoryIds } } }
+  }
+}
+
+export async function getBuiltInCategoryIdsBySlug(): Promise<Map<string, string>> {
+  const builtIns = await prisma.category.findMany({
+    where: { userId: null },
+    select: { id: true, slug: true }
+  })
+  return new Map(builtIns.map(c => [c.slug, c.id]))
+}
+
+// Classify a quote into built-in category links, skipping low-confidence guesses
+export function classifyCategoryLinks(
+  text: string,
+  author: string,
+  idsBySlug: Map<string, string>
+): Array<{ categoryId: string; confidence: number }> {
+  const { categories, lowConfidence } = classifyQuote(text, author)
+  if (lowConfidence) return []
+  
+  return categories.flatMap(({ slug, confidence }) => {
+    const categoryId = idsBySlug.get(slug)
+    return categoryId ? [{ categoryId, confidence }] : []
+  })
+}
+
+// Suggest built-in categories for a single new quote
+export async function suggestCategoryLinks(text: string, author: string) {
+  return classifyCategoryLinks(text, author, await getBuiltInCategoryIdsBySlug())
+}
@@ -0,0 +1,14 @@
+// Built-in categories created by the seed script. Kept free of imports so
+// scripts under prisma/ can use it without pulling in the app's Prisma client
+export const DEFAULT_CATEGORIES = [
+  { slug: 'motivation', name: 'Motivation', description: 'Drive, perseverance and getting things done', color: '#f97316' },
+  { slug: 'wisdom', name: 'Wisdom', description: 'Insight, knowledge and reflection', color: '#6366f1' },
+  { slug: 'love', name: 'Love', description: 'Love, friendship and relationships', color: '#ec4899' },
+  { slug: 'work', name: 'Work', description: 'Work, leadership and business', color: '#0ea5e9' },
+  { slug: 'humor', name: 'Humor', description: 'Wit and lighter moments', color: '#eab308' },
+  { slug: 'success', name: 'Success', description: 'Achievement, goals and failure', color: '#22c55e' },
+  { slug: 'happiness', name: 'Happiness', description: 'Joy, gratitude and contentment', color: '#f59e0b' },
+  { slug: 'life', name: 'Life', description: 'Living, change and time', color: '#14b8a6' },
+  { slug: 'courage', name: 'Courage', description: 'Fear, risk and bravery', color: '#ef4444' },
+  { slug: 'creativity', name: 'Creativity', description: 'Imagination, art and ideas', color: '#a855f7' },
+] as const
@@ -0,0 +1,192 @@
+/**
+ * Quote Classifier - Deterministic keyword/lexicon categorization
+ *
+ * Strategy:
+ * 1. Tokenize and lightly stem the quote text
+ * 2. Score each built-in category by summing weights of matched lexicon terms
+ *    (single words and two-word phrases), plus a few author hints
+ * 3. Convert scores to a 0-1 confidence and keep the top categories
+ *
+ * No network, no randomness: the same text always gets the same result, so
+ * the corpus script and POST /api/quotes agree.
+ */
+
+export interface CategoryScore {
+  slug: string
+  score: number
+  confidence: number
+}
+
+export interface ClassificationResult {
+  categories: CategoryScore[]
+  // True when nothing scored well enough to trust without review
+  lowConfidence: boolean
+}
+
+interface ClassifyOptions {
+  maxCategories?: number
+  minConfidence?: number
+}
+
+// Weighted terms per category slug (see lib/category-defaults.ts). Terms are
+// stemmed the same way as quote text, so list base forms only.
+const LEXICON: Record<string, Record<string, number>> = {
+  motivation: {
+    'action': 1.5, 'begin': 1.5, 'start': 1.5, 'effort': 2, 'persever': 3, 'persist': 3,
+    'determination': 3, 'discipline': 2.5, 'try': 1.5, 'never give up': 4, 'keep going': 3,
+    'hard work': 3, 'energy': 1, 'push': 1, 'strive': 2.5, 'today': 1, 'now': 0.5,
+    'potential': 2, 'believe': 1.5, 'can': 0.5, 'will': 0.5, 'step': 1.5, 'momentum': 2,
+    'obstacle': 2.5, 'goal': 2, 'dream': 1.5, 'ambition': 2.5, 'do it': 1.5, 'get up': 2,
+  },
+  wisdom: {
+    'wisdom': 4, 'wise': 3.5, 'knowledge': 3, 'know': 1, 'learn': 2, 'truth': 2.5,
+    'understand': 2, 'understanding': 2, 'mind': 1.5, 'think': 1, 'thought': 1.5,
+    'ignorance': 3, 'fool': 2.5, 'teach': 2, 'lesson': 2.5, 'reason': 1.5, 'question': 1.5,
+    'silence': 2, 'listen': 2, 'experience': 2, 'philosophy': 3, 'insight': 3,
+    'intuition': 2, 'judge': 1.5, 'virtue': 2.5, 'character': 1.5, 'study': 2, 'education': 2.5,
+  },
+  love: {
+    'love': 4, 'heart': 2.5, 'friend': 3, 'friendship': 3.5, 'kindness': 2.5, 'kind': 1.5,
+    'compassion': 3, 'care': 1.5, 'together': 1.5, 'marriage': 3.5, 'romance': 3.5,
+    'beloved': 3.5, 'affection': 3, 'family': 2.5, 'forgive': 2.5, 'forgiveness': 2.5,
+    'relationship': 3, 'lover': 3.5, 'kiss': 3, 'embrace': 2, 'hug': 2.5, 'soulmate': 4,
+  },
+  work: {
+    'work': 2.5, 'job': 3, 'career': 3.5, 'business': 3.5, 'leader': 3, 'leadership': 3.5,
+    'team': 3, 'manage': 2.5, 'management': 3, 'company': 2.5, 'customer': 3.5,
+    'money': 2, 'profit': 3, 'productivity': 3, 'employee': 3.5, 'boss': 3, 'office': 2.5,
+    'task': 2, 'skill': 2, 'craft': 2, 'excellence': 1.5, 'organization': 2, 'innovation': 2,
+    'competition': 2, 'plan': 1.5, 'labor': 2.5, 'busy': 1.5,
+  },
+  humor: {
+    'laugh': 3.5, 'laughter': 3.5, 'joke': 4, 'funny': 4, 'humor': 4, 'smile': 1.5,
+    'fun': 2.5, 'silly': 3, 'stupid': 2, 'stupidity': 2.5, 'diet': 2.5, 'golf': 3.5,
+    'drink': 2, 'beer': 3.5, 'wine': 2, 'cat': 2, 'dog': 2, 'taxes': 2.5, 'politician': 2.5,
+    'insanity': 2, 'amuse': 3,
+  },
+  success: {
+    'success': 4, 'succeed': 3.5, 'successful': 3.5, 'achieve': 3, 'achievement': 3,
+    'accomplish': 3, 'accomplishment': 3, 'fail': 3, 'failure': 3, 'win': 2.5, 'winner': 3,
+    'victory': 3, 'goal': 2, 'excellence': 2, 'greatness': 2.5, 'result': 1.5, 'progress': 2,
+    'mistake': 2, 'opportunity': 2.5, 'ambition': 2, 'talent': 1.5, 'genius': 1.5, 'reward': 2,
+  },
+  happiness: {
+    'happy': 4, 'happiness': 4, 'joy': 3.5, 'joyful': 3.5, 'cheerful': 3, 'content': 2.5,
+    'contentment': 3, 'gratitude': 3.5, 'grateful': 3.5, 'thankful': 3, 'peace': 2.5,
+    'peaceful': 2.5, 'smile': 2.5, 'enjoy': 2.5, 'pleasure': 2.5, 'delight': 2.5,
+    'optimism': 2.5, 'optimist': 2.5, 'positive': 2, 'hope': 1.5, 'sunshine': 2, 'bliss': 3,
+  },
+  life: {
+    'life': 3, 'live': 2, 'living': 2, 'alive': 2, 'death': 2.5, 'die': 2, 'time': 1.5,
+    'moment': 2, 'present': 1.5, 'past': 2, 'future': 2, 'tomorrow': 1.5, 'yesterday': 2,
+    'change': 2, 'journey': 2.5, 'path': 1.5, 'world': 1, 'nature': 1.5, 'age': 1.5,
+    'youth': 2, 'grow': 1.5, 'growth': 2, 'destiny': 2.5, 'fate': 2, 'universe': 1.5,
+    'soul': 1.5, 'spirit': 1.5, 'meaning': 2,
+  },
+  courage: {
+    'courage': 4, 'courageous': 4, 'brave': 4, 'bravery': 4, 'fear': 3, 'afraid': 3,
+    'risk': 3, 'dare': 3, 'bold': 3, 'boldness': 3, 'danger': 2.5, 'strength': 2,
+    'strong': 1.5, 'adversity': 3, 'hero': 3, 'struggle': 2, 'storm': 2, 'face': 1,
+    'confidence': 2.5, 'doubt': 2, 'stand': 1, 'fight': 2, 'overcome': 3,
+  },
+  creativity: {
+    'creativity': 4, 'creative': 4, 'create': 3, 'imagination': 4, 'imagine': 3.5,
+    'idea': 3, 'art': 3, 'artist': 3.5, 'invent': 3, 'invention': 3, 'innovation': 3,
+    'original': 2.5, 'curiosity': 3, 'curious': 3, 'wonder': 2, 'inspiration': 2.5,
+    'inspire': 2, 'music': 3, 'write': 2, 'writer': 2.5, 'poetry': 3, 'vision': 2,
+    'discover': 2, 'discovery': 2.5, 'genius': 2,
+  },
+}
+
+// Authors whose quotes lean strongly toward a category
+const AUTHOR_HINTS: Record<string, Record<string, number>> = {
+  'mark twain': { humor: 2 },
+  'oscar wilde': { humor: 1.5, wisdom: 1 },
+  'groucho marx': { humor: 3 },
+  'woody allen': { humor: 3 },
+  'george carlin': { humor: 3 },
+  'will rogers': { humor: 2 },
+  'confucius': { wisdom: 2 },
+  'lao tzu': { wisdom: 2 },
+  'socrates': { wisdom: 2 },
+  'buddha': { wisdom: 1.5, happiness: 1 },
+  'albert einstein': { creativity: 1, wisdom: 1 },
+  'steve jobs': { work: 1.5, creativity: 1 },
+  'thomas edison': { creativity: 1, success: 1 },
+}
+
+// Light suffix stripping; good enough to fold plurals and verb forms together
+export function stem(word: string): string {
+  if (word.length <= 3) return word
+  let base = word
+  if (base.endsWith('ies') && base.length > 4) {
+    base = `${base.slice(0, -3)}y`
+  } else {
+    for (const suffix of ['ing', 'ness', 'ful', 'ed', 'ly', 's']) {
+      if (base.endsWith(suffix) && base.length - suffix.length >= 3) {
+        base = base.slice(0, -suffix.length)
+        break
+      }
+    }
+  }
+  // Fold "create"/"created"/"creating" onto one key
+  return base.length > 3 && base.endsWith('e') ? base.slice(0, -1) : base
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().replace(/[’']/g, '').match(/[a-z]+/g) ?? []).map(stem)
+}
+
+// Lexicon keyed by stemmed term so lookups match tokenized text
+const STEMMED_LEXICON: Array<[string, Map<string, number>]> = Object.entries(LEXICON)
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([slug, terms]) => {
+    const stemmed = new Map<string, number>()
+    for (const [term, weight] of Object.entries(terms)) {
+      const key = tokenize(term).join(' ')
+      stemmed.set(key, Math.max(stemmed.get(key) ?? 0, weight))
+    }
+    return [slug, stemmed]
+  })
+
+export const CLASSIFIER_CATEGORIES = STEMMED_LEXICON.map(([slug]) => slug)
+
+// Saturating map from raw score to 0-1: 1 -> 0.33, 2 -> 0.5, 6 -> 0.75
+function toConfidence(score: number): number {
+  return score / (score + 2)
+}
+
+export function classifyQuote(text: string, author = '', options: ClassifyOptions = {}): ClassificationResult {
+  const { maxCategories = 3, minConfidence = 0.5 } = options
+
+  const tokens = tokenize(text)
+  const terms = [...tokens]
+  for (let i = 0; i < tokens.length - 1; i++) {
+    terms.push(`${tokens[i]} ${tokens[i + 1]}`)
+  }
+
+  // Count each distinct term once so repetition doesn't dominate
+  const distinctTerms = new Set(terms)
+  const hints = AUTHOR_HINTS[author.trim().toLowerCase()] ?? {}
+
+  const scores: CategoryScore[] = STEMMED_LEXICON.map(([slug, lexicon]) => {
+    let score = hints[slug] ?? 0
+    for (const term of distinctTerms) {
+      score += lexicon.get(term) ?? 0
+    }
+    return { slug, score, confidence: Number(toConfidence(score).toFixed(3)) }
+  })
+
+  const ranked = scores
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.slug.localeCompare(b.slug))
+
+  // Keep anything confident, or the single best guess if nothing is
+  const confident = ranked.filter(s => s.confidence >= minConfidence).slice(0, maxCategories)
+  const categories = confident.length > 0 ? confident : ranked.slice(0, 1)
+
+  return {
+    categories,
+    lowConfidence: confident.length === 0
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Collections
+ *
+ * Named playlists of quotes a user curates. Any quote the user can see can be
+ * added, preloaded or their own. Items keep a position: new quotes go to the
+ * end, removing one leaves a gap, and reordering rewrites every position from
+ * the full order the client sends. A collection can also stand in for sources
+ * and categories as the rotation source (see resolveQuoteScope).
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getQuotesByIds } from '@/lib/quote-service'
+
+export const MAX_COLLECTION_QUOTES = 500
+
+export class CollectionFullError extends Error {
+  constructor(message = `Collections can hold up to ${MAX_COLLECTION_QUOTES} quotes`) {
+    super(message)
+    this.name = 'CollectionFullError'
+  }
+}
+
+export class InvalidOrderError extends Error {
+  constructor(message = 'Order must list every quote in the collection exactly once') {
+    super(message)
+    this.name = 'InvalidOrderError'
+  }
+}
+
+export const collectionSummarySelect = {
+  id: true,
+  name: true,
+  description: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { items: true } }
+} satisfies Prisma.CollectionSelect
+
+type CollectionSummaryRow = Prisma.CollectionGetPayload<{ select: typeof collectionSummarySelect }>
+
+// Flatten the item count for the client
+export function formatCollection({ _count, ...collection }: CollectionSummaryRow) {
+  return {
+    ...collection,
+    quoteCount: _count.items,
+    createdAt: collection.createdAt.toISOString(),
+    updatedAt: collection.updatedAt.toISOString()
+  }
+}
+
+export async function findUserCollection(id: string, userId: string) {
+  return prisma.collection.findFirst({
+    where: { id, userId },
+    select: collectionSummarySelect
+  })
+}
+
+// The collection's quotes in their saved order
+export async function getCollectionQuotes(collectionId: string, userId: string) {
+  const items = await prisma.collectionItem.findMany({
+    where: { collectionId },
+    select: { quoteId: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+  })
+  const order = new Map(items.map((item, index) => [item.quoteId, index]))
+
+  const quotes = await getQuotesByIds([...order.keys()], userId)
+  return quotes.sort((a, b) => order.get(a.id)! - order.get(b.id)!)
+}
+
+// Append a quote the caller has checked the user can see. Returns false when
+// it was already in the collection, including when a concurrent add won the race.
+export async function addQuoteToCollection(collectionId: string, quoteId: string): Promise<boolean> {
+  try {
+    await prisma.$transaction(async tx => {
+      const { _count, _max } = await tx.collectionItem.aggregate({
+        where: { collectionId },
+        _count: true,
+        _max: { position: true }
+      })
+      if (_count >= MAX_COLLECTION_QUOTES) {
+        throw new CollectionFullError()
+      }
+
+      await tx.collectionItem.create({
+        data: { collectionId, quoteId, position: (_max.position ?? -1) + 1 }
+      })
+      await tx.collection.update({ where: { id: collectionId }, data: { updatedAt: new Date() } })
+    })
+    return true
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false
+    }
+    throw error
+  }
+}
+
+export async function removeQuoteFromCollection(collectionId: string, quoteId: string): Promise<boolean> {
+  const { count } = await prisma.collectionItem.deleteMany({ where: { collectionId, quoteId } })
+  if (count > 0) {
+    await prisma.collection.update({ where: { id: collectionId }, data: { updatedAt: new Date() } })
+  }
+  return count > 0
+}
+
+// Save a new order; `quoteIds` must be a permutation of the collection's quotes
+export async function reorderCollection(collectionId: string, quoteIds: string[]): Promise<void> {
+  const items = await prisma.collectionItem.findMany({
+    where: { collectionId },
+    select: { quoteId: true }
+  })
+  const current = new Set(items.map(item => item.quoteId))
+  const requested = new Set(quoteIds)
+
+  if (requested.size !== quoteIds.length || requested.size !== current.size || quoteIds.some(id => !current.has(id))) {
+    throw new InvalidOrderError()
+  }
+  if (quoteIds.length === 0) return
+
+  await prisma.$transaction([
+    prisma.$executeRaw`
+      UPDATE "CollectionItem" ci
+      SET position = o.ord - 1
+      FROM unnest(${quoteIds}::text[]) WITH ORDINALITY AS o(id, ord)
+      WHERE ci."collectionId" = ${collectionId} AND ci."quoteId" = o.id
+    `,
+    prisma.collection.update({ where: { id: collectionId }, data: { updatedAt: new Date() } })
+  ])
+}
@@ -0,0 +1,52 @@
+/**
+ * Connected accounts
+ *
+ * The OAuth accounts (Auth.js `Account` rows) linked to a user. Accounts are
+ * linked by Auth.js itself, either at sign-in or when a signed-in user goes
+ * through a provider from settings; this module lists and unlinks them. A user
+ * always keeps one way in: the last account can't be disconnected from a user
+ * without a password.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export class LastSignInMethodError extends Error {
+  constructor(message = 'Set a password or connect another account before disconnecting this one') {
+    super(message)
+    this.name = 'LastSignInMethodError'
+  }
+}
+
+export async function listConnectedAccounts(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      password: true,
+      accounts: {
+        select: { id: true, provider: true },
+        orderBy: { provider: 'asc' }
+      }
+    }
+  })
+  if (!user) return null
+
+  return { hasPassword: user.password !== null, accounts: user.accounts }
+}
+
+// False when the account isn't the user's
+export async function disconnectAccount(userId: string, accountId: string): Promise<boolean> {
+  return prisma.$transaction(async tx => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { password: true, accounts: { select: { id: true } } }
+    })
+    if (!user?.accounts.some(account => account.id === accountId)) return false
+
+    if (user.password === null && user.accounts.length === 1) {
+      throw new LastSignInMethodError()
+    }
+
+    await tx.account.delete({ where: { id: accountId } })
+    return true
+  })
+}
@@ -0,0 +1,118 @@
+/**
+ * Quote of the Day
+ *
+ * Strategy:
+ * 1. Work out today's date in the user's timezone
+ * 2. Return the quote already recorded for that date, if any
+ * 3. Otherwise pick from the user's quote pool (same source and category
+ *    rules as rotation), skipping quotes shown within the repeat window,
+ *    with a hash of user ID + date as the seed so the pick is reproducible
+ * 4. Record the pick so the rest of the day returns the same quote
+ */
+
+import { createHash } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getQuoteById, getQuoteIds, resolveQuoteScope } from '@/lib/quote-service'
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Calendar date (YYYY-MM-DD) at `now` in the given timezone
+export function localDate(timezone: string, now = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now)
+}
+
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+// Deterministic index into a list of `length` items for this user and day
+export function seededIndex(userId: string, date: string, length: number): number {
+  const digest = createHash('sha256').update(`${userId}:${date}`).digest()
+  return digest.readUInt32BE(0) % length
+}
+
+async function pickDailyQuoteId(userId: string, date: string, repeatWindow: number): Promise<string | null> {
+  // The same quotes rotation draws from
+  const scope = await resolveQuoteScope(userId, { categoryIds: [] })
+  const candidates = scope ? await getQuoteIds(scope) : []
+  if (candidates.length === 0) return null
+
+  const recent = await prisma.dailyQuote.findMany({
+    where: {
+      userId,
+      date: { gte: shiftDate(date, -repeatWindow), lt: date }
+    },
+    select: { quoteId: true }
+  })
+  const recentIds = new Set(recent.map(r => r.quoteId))
+
+  // Once every quote has been shown inside the window, start over
+  const fresh = candidates.filter(id => !recentIds.has(id))
+  const pool = (fresh.length > 0 ? fresh : candidates).sort()
+
+  return pool[seededIndex(userId, date, pool.length)]
+}
+
+// `browserTimezone` is used when the user hasn't set a timezone in preferences
+export async function getDailyQuote(userId: string, browserTimezone?: string) {
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+    select: { timezone: true, dailyRepeatWindow: true }
+  })
+
+  const timezone = [preferences?.timezone, browserTimezone].find(
+    (tz): tz is string => !!tz && isValidTimezone(tz)
+  ) ?? DEFAULT_TIMEZONE
+  const date = localDate(timezone)
+
+  let entry = await prisma.dailyQuote.findUnique({
+    where: { userId_date: { userId, date } },
+    select: { quoteId: true }
+  })
+
+  if (!entry) {
+    const quoteId = await pickDailyQuoteId(userId, date, preferences?.dailyRepeatWindow ?? 365)
+    if (!quoteId) return { date, timezone, quote: null }
+
+    try {
+      entry = await prisma.dailyQuote.create({
+        data: { userId, quoteId, date, timezone },
+        select: { quoteId: true }
+      })
+    } catch (error) {
+      // A concurrent request recorded today's quote first; use theirs
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        entry = await prisma.dailyQuote.findUniqueOrThrow({
+          where: { userId_date: { userId, date } },
+          select: { quoteId: true }
+        })
+      } else {
+        throw error
+      }
+    }
+  }
+
+  return {
+    date,
+    timezone,
+    quote: await getQuoteById(entry.quoteId, userId)
+  }
+}
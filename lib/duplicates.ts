@@ -0,0 +1,114 @@
+/**
+ * Duplicate detection for quote text
+ *
+ * Quotes are compared on a normalized form (case, accents, punctuation and
+ * whitespace folded away, in any script) so "Genius is 1% inspiration..." variants that only
+ * differ in punctuation match exactly. Near-duplicates are scored with the
+ * Dice coefficient over character trigrams. The normalized text is also
+ * hashed into Quote.textHash so exact duplicates are an indexed lookup.
+ */
+
+import { createHash } from 'crypto'
+
+export const NEAR_DUPLICATE_THRESHOLD = 0.85
+
+export interface DuplicateCandidate {
+  id: string
+  text: string
+  author: string
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate = DuplicateCandidate> {
+  quote: T
+  similarity: number
+  exact: boolean
+}
+
+// Exact duplicates are never saved; near-duplicates only when allowed
+export function isBlockingDuplicate<T extends { exact: boolean }>(match: T | null, allowSimilar: boolean): match is T {
+  return match !== null && (match.exact || !allowSimilar)
+}
+
+// Letters and digits of any script are kept; only Latin-style accents are
+// folded. Marks other scripts need (Japanese dakuten, Devanagari vowel signs)
+// stay, so distinct words don't collapse into one.
+export function normalizeQuoteText(text: string): string {
+  const normalized = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  // Quotes made only of symbols (emoji) would otherwise all normalize to ""
+  return normalized || text.replace(/\s+/g, ' ').trim()
+}
+
+export function hashQuoteText(text: string): string {
+  return createHash('sha256').update(normalizeQuoteText(text)).digest('hex')
+}
+
+export function trigrams(normalized: string): Set<string> {
+  const padded = `  ${normalized} `
+  const grams = new Set<string>()
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3))
+  }
+  return grams
+}
+
+// Dice coefficient: 2|A∩B| / (|A| + |B|), 1 for identical inputs
+export function diceSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  for (const gram of small) {
+    if (large.has(gram)) shared++
+  }
+  return (2 * shared) / (a.size + b.size)
+}
+
+/**
+ * Pre-computed index over a set of quotes. Build once, then look up many
+ * texts against it (import previews check hundreds of rows at a time).
+ */
+export class DuplicateIndex<T extends DuplicateCandidate = DuplicateCandidate> {
+  private exact = new Map<string, T>()
+  private entries: Array<{ quote: T; length: number; grams: Set<string> }> = []
+
+  constructor(quotes: T[] = []) {
+    quotes.forEach(quote => this.add(quote))
+  }
+
+  add(quote: T) {
+    const normalized = normalizeQuoteText(quote.text)
+    if (!this.exact.has(normalized)) {
+      this.exact.set(normalized, quote)
+    }
+    this.entries.push({ quote, length: normalized.length, grams: trigrams(normalized) })
+  }
+
+  findMatch(text: string, threshold = NEAR_DUPLICATE_THRESHOLD): DuplicateMatch<T> | null {
+    const normalized = normalizeQuoteText(text)
+    const exact = this.exact.get(normalized)
+    if (exact) {
+      return { quote: exact, similarity: 1, exact: true }
+    }
+
+    const grams = trigrams(normalized)
+    let best: DuplicateMatch<T> | null = null
+
+    for (const entry of this.entries) {
+      // Texts whose lengths differ this much can't reach the threshold
+      const ratio = Math.min(entry.length, normalized.length) / Math.max(entry.length, normalized.length, 1)
+      if (ratio < threshold - 0.1) continue
+
+      const similarity = diceSimilarity(grams, entry.grams)
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { quote: entry.quote, similarity: Number(similarity.toFixed(3)), exact: false }
+      }
+    }
+
+    return best
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Login throttling
+ *
+ * Two guards on password sign-in, both checked before Auth.js runs the
+ * credentials provider (see app/api/auth/[...nextauth]/route.ts):
+ * - a per-IP rate limit on attempts (RATE_LIMITS.login)
+ * - a progressive per-email lockout: after LOCKOUT_THRESHOLD failures in a
+ *   row, each further failure locks the address for twice as long as the
+ *   last, from one minute up to an hour. A successful sign-in clears it.
+ *
+ * Failures are counted per email rather than per email and IP so guesses
+ * spread over many IPs still add up. Every failed password check is written
+ * to FailedLogin for auditing.
+ */
+
+import type { LoginFailureReason } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { RATE_LIMITS, normalizeEmail, rateLimitStore, secondsUntil } from '@/lib/rate-limit'
+
+export const LOCKOUT_THRESHOLD = 5
+const FIRST_LOCKOUT_MS = 60 * 1000
+const MAX_LOCKOUT_MS = 60 * 60 * 1000
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000 // Failures older than this are forgotten
+
+// Reasons that count towards a lockout; EMAIL_NOT_VERIFIED had the right password
+const GUESS_REASONS: LoginFailureReason[] = ['UNKNOWN_EMAIL', 'NO_PASSWORD', 'INVALID_PASSWORD']
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate_limited' | 'locked_out'; retryAfter: number }
+
+const failuresKey = (email: string) => `login-failures:${email}`
+const lockKey = (email: string) => `login-lock:${email}`
+
+export function lockoutDuration(failures: number): number {
+  const doublings = failures - LOCKOUT_THRESHOLD
+  return Math.min(FIRST_LOCKOUT_MS * 2 ** doublings, MAX_LOCKOUT_MS)
+}
+
+// Counts the attempt against the IP's limit
+export async function checkLoginAllowed(ip: string, email: string): Promise<LoginCheck> {
+  const store = rateLimitStore()
+
+  const lock = await store.get(lockKey(normalizeEmail(email)))
+  if (lock) {
+    return { allowed: false, reason: 'locked_out', retryAfter: secondsUntil(lock.resetAt) }
+  }
+
+  const { count, resetAt } = await store.increment(`login:ip:${ip}`, RATE_LIMITS.login.windowMs)
+  if (count > RATE_LIMITS.login.limit) {
+    return { allowed: false, reason: 'rate_limited', retryAfter: secondsUntil(resetAt) }
+  }
+
+  return { allowed: true }
+}
+
+interface LoginFailure {
+  email: string
+  ip: string
+  userAgent: string | null
+  reason: LoginFailureReason
+  userId?: string
+}
+
+export async function recordLoginFailure({ email, ip, userAgent, reason, userId }: LoginFailure): Promise<void> {
+  const normalized = normalizeEmail(email)
+  let lockedUntil: Date | null = null
+
+  if (GUESS_REASONS.includes(reason)) {
+    const store = rateLimitStore()
+    const { count } = await store.increment(failuresKey(normalized), FAILURE_WINDOW_MS)
+    if (count >= LOCKOUT_THRESHOLD) {
+      const duration = lockoutDuration(count)
+      // The previous lock has ended (we wouldn't be here otherwise), so this starts a fresh window
+      const lock = await store.increment(lockKey(normalized), duration)
+      lockedUntil = lock.resetAt
+    }
+  }
+
+  await prisma.failedLogin.create({
+    data: { email: normalized, ip, userAgent, reason, lockedUntil, userId }
+  })
+}
+
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await rateLimitStore().reset(failuresKey(normalizeEmail(email)))
+}
@@ -0,0 +1,181 @@
+/**
+ * Quote export
+ *
+ * Quotes are read in pages and each format is written chunk by chunk, so the
+ * export route can stream large libraries without holding them in memory.
+ * CSV uses the quotes.csv column names so exported files can be re-imported
+ * through POST /api/quotes/import.
+ */
+
+import Papa from 'papaparse'
+import { prisma } from '@/lib/prisma'
+import { quoteScopeWhere, type QuoteSourceKind } from '@/lib/quote-scope'
+
+export type ExportFormat = 'csv' | 'json' | 'md' | 'html'
+export type ExportSource = Exclude<QuoteSourceKind, 'PRELOADED'>
+
+export interface ExportOptions {
+  userId: string
+  sources: ExportSource[]
+  categoryIds?: string[]
+  excludeIds?: string[]
+  excludeCategoryIds?: string[]
+}
+
+interface ExportQuote {
+  id: string
+  text: string
+  author: string
+  source: string | null
+  isPreloaded: boolean
+  createdAt: Date
+  categories: string[]
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+}
+
+const PAGE_SIZE = 200
+
+// Page through matching quotes in a stable order
+async function* readExportQuotes(options: ExportOptions): AsyncGenerator<ExportQuote[]> {
+  // Export options are a quote scope over the user's own sources
+  const where = quoteScopeWhere(options)
+  let cursor: string | undefined
+
+  while (true) {
+    const page = await prisma.quote.findMany({
+      where,
+      select: {
+        id: true,
+        text: true,
+        author: true,
+        source: true,
+        isPreloaded: true,
+        createdAt: true,
+        categories: {
+          select: { category: { select: { name: true } } },
+          orderBy: { category: { name: 'asc' } }
+        }
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: PAGE_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    })
+
+    if (page.length === 0) return
+
+    yield page.map(quote => ({
+      ...quote,
+      categories: quote.categories.map(link => link.category.name)
+    }))
+
+    if (page.length < PAGE_SIZE) return
+    cursor = page[page.length - 1].id
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Escape characters Markdown would otherwise interpret
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+function toCsvRows(quotes: ExportQuote[]) {
+  return quotes.map(quote => ({
+    Author: quote.author,
+    Quote: quote.text,
+    Source: quote.source ?? '',
+    Categories: quote.categories.join('; '),
+  }))
+}
+
+function toJson(quote: ExportQuote) {
+  return {
+    text: quote.text,
+    author: quote.author,
+    source: quote.source,
+    categories: quote.categories,
+    isPreloaded: quote.isPreloaded,
+    createdAt: quote.createdAt.toISOString(),
+  }
+}
+
+function toMarkdown(quote: ExportQuote): string {
+  const lines = [`> ${escapeMarkdown(quote.text).replace(/\n/g, '\n> ')}`, '>', `> — ${escapeMarkdown(quote.author)}`]
+  if (quote.source) lines.push(`> *${escapeMarkdown(quote.source)}*`)
+  if (quote.categories.length > 0) lines.push('', quote.categories.map(c => `\`${c}\``).join(' '))
+  return `${lines.join('\n')}\n\n`
+}
+
+function toHtml(quote: ExportQuote): string {
+  const source = quote.source ? `<cite>${escapeHtml(quote.source)}</cite>` : ''
+  const categories = quote.categories.length > 0
+    ? `<div class="tags">${quote.categories.map(c => `<span>${escapeHtml(c)}</span>`).join('')}</div>`
+    : ''
+  return `<figure><blockquote>${escapeHtml(quote.text)}</blockquote><figcaption>— ${escapeHtml(quote.author)}${source}</figcaption>${categories}</figure>\n`
+}
+
+const HTML_HEAD = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Inspiro quotes</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }
+  h1 { font-family: system-ui, sans-serif; font-size: 1.5rem; }
+  figure { margin: 0 0 1.5rem; padding: 1rem 1.25rem; border-left: 4px solid #6366f1; break-inside: avoid; }
+  blockquote { margin: 0; font-size: 1.15rem; line-height: 1.6; }
+  figcaption { margin-top: 0.5rem; font-family: system-ui, sans-serif; color: #4b5563; }
+  cite { display: block; font-size: 0.875rem; }
+  .tags span { display: inline-block; margin: 0.5rem 0.25rem 0 0; padding: 0 0.5rem; border-radius: 9999px; background: #eef2ff; font: 0.75rem system-ui, sans-serif; }
+  @media print { body { margin: 0; max-width: none; } figure { border-left-color: #000; } @page { margin: 2cm; } }
+</style>
+</head>
+<body>
+<h1>Inspiro quotes</h1>
+`
+
+// Stream the export as text chunks in the requested format
+export async function* renderExport(format: ExportFormat, options: ExportOptions): AsyncGenerator<string> {
+  let first = true
+
+  if (format === 'json') yield '{"quotes":[\n'
+  if (format === 'md') yield '# Inspiro quotes\n\n'
+  if (format === 'html') yield HTML_HEAD
+
+  for await (const quotes of readExportQuotes(options)) {
+    switch (format) {
+      case 'csv':
+        yield `${Papa.unparse(toCsvRows(quotes), { quotes: true, header: first })}\r\n`
+        break
+      case 'json':
+        yield quotes.map((quote, i) => `${first && i === 0 ? '' : ',\n'}${JSON.stringify(toJson(quote))}`).join('')
+        break
+      case 'md':
+        yield quotes.map(toMarkdown).join('')
+        break
+      case 'html':
+        yield quotes.map(toHtml).join('')
+        break
+    }
+    first = false
+  }
+
+  // An empty CSV still gets its header row so it round-trips through import
+  if (format === 'csv' && first) yield '"Author","Quote","Source","Categories"\r\n'
+  if (format === 'json') yield '\n]}\n'
+  if (format === 'html') yield '</body>\n</html>\n'
+}
@@ -0,0 +1,111 @@
+/**
+ * Quote image cards
+ *
+ * Renders a quote to PNG with Next's ImageResponse, in the same palette as the
+ * fullscreen view, for posting without screenshots. Used by the signed-in
+ * image endpoint (with the user's theme, font size and showAuthor) and by the
+ * OpenGraph image of shared quote pages.
+ *
+ * The text is sized to fit the canvas first: the largest size whose estimated
+ * wrapped lines fill the text box. The font size preference then picks a share
+ * of that, so even EXTRA_LARGE never overflows.
+ */
+
+import { ImageResponse } from 'next/og'
+
+export const QUOTE_IMAGE_FORMATS = {
+  square: { width: 1080, height: 1080 }, // Instagram and most feeds
+  story: { width: 1080, height: 1920 }, // Stories and phone wallpapers
+  banner: { width: 1500, height: 500 }, // Headers and slides
+  og: { width: 1200, height: 630 } // Link previews
+} as const
+
+export type QuoteImageFormat = keyof typeof QUOTE_IMAGE_FORMATS
+export type QuoteImageTheme = 'light' | 'dark'
+export type QuoteImageFontSize = 'SMALL' | 'MEDIUM' | 'LARGE' | 'EXTRA_LARGE'
+
+export interface QuoteImageOptions {
+  format: QuoteImageFormat
+  theme: QuoteImageTheme
+  fontSize: QuoteImageFontSize
+  showAuthor: boolean
+}
+
+const PALETTES: Record<QuoteImageTheme, { background: string; text: string; muted: string }> = {
+  light: { background: 'linear-gradient(135deg, #eff6ff 0%, #e0e7ff 100%)', text: '#1f2937', muted: '#4b5563' },
+  dark: { background: 'linear-gradient(135deg, #111827 0%, #1f2937 100%)', text: '#f3f4f6', muted: '#d1d5db' }
+}
+
+// Share of the fitted size for each preference
+const FONT_SCALE: Record<QuoteImageFontSize, number> = {
+  SMALL: 0.7,
+  MEDIUM: 0.8,
+  LARGE: 0.9,
+  EXTRA_LARGE: 1
+}
+
+const LINE_HEIGHT = 1.35
+const GLYPH_WIDTH = 0.52 // Average advance of the default font, in ems
+
+// Largest font size at which `text` fits a `width` × `height` box
+export function fitFontSize(text: string, width: number, height: number): number {
+  const chars = Math.max(text.length, 12)
+  const size = Math.sqrt((width * height) / (chars * GLYPH_WIDTH * LINE_HEIGHT))
+  // Short quotes would otherwise grow past a comfortable headline size
+  return Math.floor(Math.min(size, height / (2 * LINE_HEIGHT), width / 8))
+}
+
+export function renderQuoteImage(
+  quote: { text: string; author: string },
+  { format, theme, fontSize, showAuthor }: QuoteImageOptions,
+  init?: ResponseInit
+): ImageResponse {
+  const { width, height } = QUOTE_IMAGE_FORMATS[format]
+  const palette = PALETTES[theme]
+  const padding = Math.round(Math.min(width, height) * 0.1)
+  // Room below the quote for the author line and the footer
+  const textHeight = (height - padding * 2) * (showAuthor ? 0.78 : 0.88)
+  const textSize = Math.round(fitFontSize(`“${quote.text}”`, width - padding * 2, textHeight) * FONT_SCALE[fontSize])
+  const authorSize = Math.max(18, Math.round(textSize * 0.55))
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'center',
+          alignItems: 'center',
+          padding,
+          background: palette.background,
+          color: palette.text,
+          textAlign: 'center'
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: textSize, lineHeight: LINE_HEIGHT }}>
+          {`“${quote.text}”`}
+        </div>
+        {showAuthor && (
+          <div style={{ display: 'flex', marginTop: textSize * 0.8, fontSize: authorSize, color: palette.muted }}>
+            {`— ${quote.author}`}
+          </div>
+        )}
+        <div
+          style={{
+            position: 'absolute',
+            bottom: padding / 2,
+            display: 'flex',
+            fontSize: Math.max(16, Math.round(Math.min(width, height) * 0.025)),
+            color: palette.muted,
+            opacity: 0.7
+          }}
+        >
+          Inspiro
+        </div>
+      </div>
+    ),
+    { width, height, ...init }
+  )
+}
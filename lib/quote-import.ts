@@ -0,0 +1,242 @@
+/**
+ * Bulk quote import
+ *
+ * Flow:
+ * 1. Parse CSV (same Author/Quote columns as quotes.csv) or JSON into rows
+ * 2. Validate each row against createQuoteSchema and resolve category names
+ * 3. Flag rows that duplicate an existing quote or an earlier row in the file
+ * 4. Commit the accepted rows in a single transaction, minus exact duplicates
+ */
+
+import Papa from 'papaparse'
+import { prisma } from '@/lib/prisma'
+import { createQuoteSchema } from '@/lib/validations'
+import { DuplicateIndex, hashQuoteText } from '@/lib/duplicates'
+import { classifyCategoryLinks, getBuiltInCategoryIdsBySlug, visibleCategoriesWhere } from '@/lib/categories'
+import { resolveAuthorIds } from '@/lib/authors'
+import { slugify } from '@/lib/utils'
+import { findDuplicateCandidates } from '@/lib/quote-service'
+
+export const MAX_IMPORT_ROWS = 500
+
+export interface RawImportRow {
+  text: string
+  author: string
+  source?: string
+  categories?: string[]
+}
+
+export interface ImportPreviewRow extends RawImportRow {
+  index: number
+  categoryIds: string[]
+  unknownCategories: string[]
+  errors: string[]
+  duplicate: {
+    quoteId: string | null // Null when the match is an earlier row in the same file
+    text: string
+    author: string
+    similarity: number
+    exact: boolean
+  } | null
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[]
+  summary: {
+    total: number
+    valid: number
+    invalid: number
+    duplicates: number
+  }
+}
+
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportParseError'
+  }
+}
+
+// Accept the quotes.csv headers plus a few common aliases, case-insensitively
+const FIELD_ALIASES: Record<keyof RawImportRow, string[]> = {
+  text: ['quote', 'text'],
+  author: ['author'],
+  source: ['source'],
+  categories: ['categories', 'category'],
+}
+
+function pickField(record: Record<string, unknown>, field: keyof RawImportRow): unknown {
+  for (const [key, value] of Object.entries(record)) {
+    if (FIELD_ALIASES[field].includes(key.trim().toLowerCase())) {
+      return value
+    }
+  }
+  return undefined
+}
+
+function toCategoryList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String).map(v => v.trim()).filter(Boolean)
+  }
+  if (typeof value === 'string') {
+    return value.split(/[;,|]/).map(v => v.trim()).filter(Boolean)
+  }
+  return []
+}
+
+function toRow(record: unknown): RawImportRow {
+  const fields = record && typeof record === 'object' ? record as Record<string, unknown> : {}
+  const source = pickField(fields, 'source')
+  return {
+    text: String(pickField(fields, 'text') ?? '').trim(),
+    author: String(pickField(fields, 'author') ?? '').trim(),
+    source: source ? String(source).trim() : undefined,
+    categories: toCategoryList(pickField(fields, 'categories')),
+  }
+}
+
+export function parseImportContent(format: 'csv' | 'json', content: string): RawImportRow[] {
+  let records: unknown[]
+
+  if (format === 'csv') {
+    const result = Papa.parse<Record<string, string>>(content, {
+      header: true,
+      skipEmptyLines: true,
+    })
+    if (result.errors.length > 0 && result.data.length === 0) {
+      throw new ImportParseError(`Could not parse CSV: ${result.errors[0].message}`)
+    }
+    const headers = (result.meta.fields ?? []).map(h => h.trim().toLowerCase())
+    if (!headers.some(h => FIELD_ALIASES.text.includes(h)) || !headers.includes('author')) {
+      throw new ImportParseError('CSV must have "Author" and "Quote" columns')
+    }
+    records = result.data
+  } else {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      throw new ImportParseError('Could not parse JSON')
+    }
+    // Accept a bare array or the { quotes: [...] } shape our endpoints return
+    const list = Array.isArray(parsed) ? parsed : (parsed as { quotes?: unknown })?.quotes
+    if (!Array.isArray(list)) {
+      throw new ImportParseError('JSON must be an array of quotes or an object with a "quotes" array')
+    }
+    records = list
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportParseError(`Imports are limited to ${MAX_IMPORT_ROWS} quotes at a time`)
+  }
+
+  return records.map(toRow)
+}
+
+// Validate rows and flag duplicates against the user's visible quotes
+export async function buildImportPreview(rows: RawImportRow[], userId: string): Promise<ImportPreview> {
+  const [existingQuotes, categories] = await Promise.all([
+    findDuplicateCandidates(rows.map(row => row.text).filter(Boolean), userId),
+    prisma.category.findMany({
+      where: visibleCategoriesWhere(userId),
+      select: { id: true, slug: true, userId: true }
+    })
+  ])
+
+  // The user's own categories win over built-ins with the same slug
+  const categoryIdsBySlug = new Map<string, string>()
+  for (const category of categories.sort((a, b) => Number(a.userId !== null) - Number(b.userId !== null))) {
+    categoryIdsBySlug.set(category.slug, category.id)
+  }
+
+  const existingIndex = new DuplicateIndex(existingQuotes)
+  const fileIndex = new DuplicateIndex<{ id: string; text: string; author: string }>()
+
+  const previewRows = rows.map((row, index): ImportPreviewRow => {
+    const parsed = createQuoteSchema.safeParse({
+      text: row.text,
+      author: row.author,
+      source: row.source || undefined,
+    })
+    const errors = parsed.success
+      ? []
+      : parsed.error.errors.map(e => `${e.path.join('.') || 'row'}: ${e.message}`)
+
+    const categoryIds: string[] = []
+    const unknownCategories: string[] = []
+    for (const name of row.categories ?? []) {
+      const categoryId = categoryIdsBySlug.get(slugify(name))
+      if (categoryId) {
+        if (!categoryIds.includes(categoryId)) categoryIds.push(categoryId)
+      } else {
+        unknownCategories.push(name)
+      }
+    }
+
+    let duplicate: ImportPreviewRow['duplicate'] = null
+    if (row.text) {
+      const existing = existingIndex.findMatch(row.text)
+      const inFile = existing?.exact ? null : fileIndex.findMatch(row.text)
+      // An exact match wins over a near one, wherever it is
+      const match = inFile?.exact || !existing ? inFile : existing
+      if (match) {
+        duplicate = {
+          quoteId: match === existing ? match.quote.id : null,
+          text: match.quote.text,
+          author: match.quote.author,
+          similarity: match.similarity,
+          exact: match.exact,
+        }
+      }
+      fileIndex.add({ id: `row-${index}`, text: row.text, author: row.author })
+    }
+
+    return { ...row, index, categoryIds, unknownCategories, errors, duplicate }
+  })
+
+  const valid = previewRows.filter(r => r.errors.length === 0)
+
+  return {
+    rows: previewRows,
+    summary: {
+      total: previewRows.length,
+      valid: valid.length,
+      invalid: previewRows.length - valid.length,
+      duplicates: valid.filter(r => r.duplicate).length,
+    }
+  }
+}
+
+// Insert accepted rows atomically; returns the number of quotes created.
+// Rows without categories are auto-categorized, as in POST /api/quotes.
+export async function commitImport(rows: ImportPreviewRow[], userId: string): Promise<number> {
+  const [builtInIds, authorIds] = await Promise.all([
+    getBuiltInCategoryIdsBySlug(),
+    resolveAuthorIds(rows.map(row => row.author))
+  ])
+  
+  await prisma.$transaction(async (tx) => {
+    for (const row of rows) {
+      const categoryLinks = row.categoryIds.length > 0
+        ? row.categoryIds.map(categoryId => ({ categoryId }))
+        : classifyCategoryLinks(row.text, row.author, builtInIds)
+      
+      await tx.quote.create({
+        data: {
+          text: row.text,
+          author: row.author,
+          source: row.source || undefined,
+          textHash: hashQuoteText(row.text),
+          authorId: authorIds.get(row.author) ?? null,
+          userId,
+          isPreloaded: false,
+          categories: {
+            create: categoryLinks
+          }
+        }
+      })
+    }
+  }, { timeout: 30000 })
+
+  return rows.length
+}
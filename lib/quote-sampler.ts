@@ -0,0 +1,208 @@
+/**
+ * Random quote sampling
+ *
+ * GET /api/quotes?random=true wants a few weighted random quotes from a scope
+ * that may hold a very large number of them. Sorting the whole scope by a
+ * random key costs a scan and a sort on every request, so large scopes are
+ * sampled in two parts instead:
+ * 1. Exceptions: the user's favorites, their new custom quotes and the quotes
+ *    they've viewed. Only these can weigh anything but the baseline, and they
+ *    come from per-user tables, so there are as many as the user's activity
+ *    makes, however large the table grows
+ * 2. The pool: everything else in scope. It all weighs the same (the unseen
+ *    boost), so the weighted draw only needs its size, and its picks are a
+ *    uniform sample by Quote.seq (sampleBySequence)
+ *
+ * planWeightedDraws splits the picks between the two with the same rule as the
+ * weighted shuffle, and quotes seen within the history window still come last.
+ * Each pool probe is a uniform sequence number, looked up through the unique
+ * index; numbers that miss the pool are drawn again, so every pool quote has
+ * the same chance, as with ORDER BY RANDOM(). Sampling doesn't write.
+ *
+ * Scopes of up to EXACT_SAMPLE_LIMIT quotes are cheap enough to sort outright.
+ * Only larger scopes need their full size, which is counted once and cached.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getUserRotationWeights, newQuoteCutoff } from '@/lib/quote-service'
+import { quoteScopeSql, quoteScopeWhere, type QuoteScope } from '@/lib/quote-scope'
+import { getViewHistoryDays, viewWindowStart } from '@/lib/view-history'
+import { planWeightedDraws, rotationWeight, sampleBySequence } from '@/lib/weighted-rotation'
+
+export const EXACT_SAMPLE_LIMIT = 5000
+const SCOPE_SIZE_TTL_MS = 10 * 60 * 1000
+const MAX_CACHED_SCOPES = 1000
+
+const scopeSizes = new Map<string, { size: number; expiresAt: number }>()
+
+// Weighted random order over the whole scope, unseen quotes first
+export async function sortSampleQuoteIds(scope: QuoteScope, count: number): Promise<string[]> {
+  const { userId } = scope
+  const [historyDays, boosts] = await Promise.all([
+    getViewHistoryDays(userId),
+    getUserRotationWeights(userId)
+  ])
+
+  // Recently seen quotes go last, least recently seen first
+  const orderTerms = []
+  if (historyDays > 0) {
+    orderTerms.push(Prisma.sql`(
+      SELECT MAX(v."viewedAt") FROM "QuoteView" v
+      WHERE v."quoteId" = q.id AND v."userId" = ${userId} AND v."viewedAt" > ${viewWindowStart(historyDays)}
+    ) ASC NULLS FIRST`)
+  }
+
+  // Same Efraimidis-Spirakis keys as lib/weighted-rotation
+  const weight = Prisma.sql`
+    (CASE WHEN EXISTS (SELECT 1 FROM "Favorite" f WHERE f."quoteId" = q.id AND f."userId" = ${userId})
+      THEN ${boosts.favorite}::float8 ELSE 1 END)
+    * (CASE WHEN q."isPreloaded" = false AND q."userId" = ${userId} AND q."createdAt" > ${newQuoteCutoff()}
+      THEN ${boosts.newQuote}::float8 ELSE 1 END)
+    * (CASE WHEN NOT EXISTS (SELECT 1 FROM "QuoteView" v WHERE v."quoteId" = q.id AND v."userId" = ${userId})
+      THEN ${boosts.unseen}::float8 ELSE 1 END)`
+  orderTerms.push(Prisma.sql`-LN(1 - RANDOM()) / (${weight})`)
+
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT q.id
+    FROM "Quote" q
+    WHERE ${quoteScopeSql(scope)}
+    ORDER BY ${Prisma.join(orderTerms, ', ')}
+    LIMIT ${count}
+  `
+  return rows.map(row => row.id)
+}
+
+// `size` distinct pool quotes (in scope and not an exception), uniformly
+async function samplePool(scope: QuoteScope, size: number, poolSize: number, newSince: Date): Promise<string[]> {
+  const { userId } = scope
+  const inPool = Prisma.sql`${quoteScopeSql(scope)}
+    AND NOT EXISTS (SELECT 1 FROM "Favorite" f WHERE f."quoteId" = q.id AND f."userId" = ${userId})
+    AND NOT EXISTS (SELECT 1 FROM "QuoteView" v WHERE v."quoteId" = q.id AND v."userId" = ${userId})
+    AND NOT (q."isPreloaded" = false AND q."userId" = ${userId} AND q."createdAt" > ${newSince})`
+
+  const [{ maxSeq }] = await prisma.$queryRaw<[{ maxSeq: number | null }]>`
+    SELECT max(seq) AS "maxSeq" FROM "Quote"
+  `
+  if (!maxSeq) return []
+
+  const picked = await sampleBySequence(size, maxSeq, poolSize / maxSeq, async seqs => {
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT q.id
+      FROM unnest(${seqs}::int[]) WITH ORDINALITY AS r(seq, n)
+      JOIN "Quote" q ON q.seq = r.seq
+      WHERE ${inPool}
+      ORDER BY r.n
+    `
+    return rows.map(row => row.id)
+  })
+  if (picked.length === size) return picked
+
+  // A pool that's a small slice of the table can run out of probes; the rest
+  // is still uniform over what's left, just slower to find
+  const rest = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT q.id FROM "Quote" q
+    WHERE ${inPool}${picked.length > 0 ? Prisma.sql` AND q.id NOT IN (${Prisma.join(picked)})` : Prisma.empty}
+    ORDER BY random()
+    LIMIT ${size - picked.length}
+  `
+  return [...picked, ...rest.map(row => row.id)]
+}
+
+// Same distribution as sortSampleQuoteIds without sorting the scope
+export async function indexSampleQuoteIds(scope: QuoteScope, count: number, total: number): Promise<string[]> {
+  const { userId } = scope
+  const where = quoteScopeWhere(scope)
+  const newSince = newQuoteCutoff()
+
+  const [historyDays, boosts, favorites, newQuotes, views] = await Promise.all([
+    getViewHistoryDays(userId),
+    getUserRotationWeights(userId),
+    prisma.favorite.findMany({
+      where: { userId, quote: where },
+      select: { quoteId: true }
+    }),
+    prisma.quote.findMany({
+      where: { AND: [where, { userId, isPreloaded: false, createdAt: { gt: newSince } }] },
+      select: { id: true }
+    }),
+    prisma.quoteView.groupBy({
+      by: ['quoteId'],
+      where: { userId, quote: where },
+      _max: { viewedAt: true }
+    })
+  ])
+
+  const favoriteSet = new Set(favorites.map(f => f.quoteId))
+  const newSet = new Set(newQuotes.map(q => q.id))
+  const lastViewed = new Map(views.map(v => [v.quoteId, v._max.viewedAt?.getTime() ?? 0]))
+  const exceptionIds = [...new Set([...favoriteSet, ...newSet, ...lastViewed.keys()])]
+
+  const windowStart = historyDays > 0 ? viewWindowStart(historyDays).getTime() : Infinity
+  const isRecent = (id: string) => (lastViewed.get(id) ?? 0) > windowStart
+  const fresh = exceptionIds.filter(id => !isRecent(id))
+  const seen = exceptionIds
+    .filter(isRecent)
+    .sort((a, b) => lastViewed.get(a)! - lastViewed.get(b)!)
+
+  const poolSize = Math.max(0, total - exceptionIds.length)
+  const draws = planWeightedDraws(
+    fresh,
+    id => rotationWeight({
+      isFavorite: favoriteSet.has(id),
+      isNew: newSet.has(id),
+      isUnseen: !lastViewed.has(id)
+    }, boosts),
+    poolSize,
+    boosts.unseen,
+    count
+  )
+
+  const poolDraws = draws.filter(draw => draw === null).length
+  const poolIds = poolDraws > 0 ? await samplePool(scope, poolDraws, poolSize, newSince) : []
+  let nextPoolId = 0
+  // A pool smaller than the cached `total` just leaves slots empty
+  const picked = draws.flatMap(draw => draw ?? poolIds[nextPoolId++] ?? [])
+
+  return [...picked, ...seen].slice(0, count)
+}
+
+// Number of quotes in scope. Counting stops past EXACT_SAMPLE_LIMIT, which is
+// all the choice of sampler needs; the full size of a larger scope only splits
+// picks between exceptions and the pool, so a few minutes' staleness is fine.
+export async function scopeSize(scope: QuoteScope): Promise<number> {
+  const [{ size }] = await prisma.$queryRaw<[{ size: number }]>`
+    SELECT count(*)::int AS size
+    FROM (SELECT 1 FROM "Quote" q WHERE ${quoteScopeSql(scope)} LIMIT ${EXACT_SAMPLE_LIMIT + 1}) s
+  `
+  if (size <= EXACT_SAMPLE_LIMIT) return size
+
+  const key = JSON.stringify(scope)
+  const now = Date.now()
+  const cached = scopeSizes.get(key)
+  if (cached && cached.expiresAt > now) return cached.size
+
+  const total = await prisma.quote.count({ where: quoteScopeWhere(scope) })
+  if (scopeSizes.size >= MAX_CACHED_SCOPES) {
+    for (const [cachedKey, entry] of scopeSizes) {
+      if (entry.expiresAt <= now) scopeSizes.delete(cachedKey)
+    }
+    if (scopeSizes.size >= MAX_CACHED_SCOPES) scopeSizes.clear()
+  }
+  scopeSizes.set(key, { size: total, expiresAt: now + SCOPE_SIZE_TTL_MS })
+  return total
+}
+
+/**
+ * Server-side: `count` quote IDs from the scope in weighted random order, and
+ * the scope's size (exact up to EXACT_SAMPLE_LIMIT, cached above it).
+ */
+export async function sampleQuoteIds(scope: QuoteScope, count: number): Promise<{ ids: string[]; total: number }> {
+  const total = await scopeSize(scope)
+  if (total === 0) return { ids: [], total }
+
+  const ids = total <= EXACT_SAMPLE_LIMIT
+    ? await sortSampleQuoteIds(scope, count)
+    : await indexSampleQuoteIds(scope, count, total)
+  return { ids, total }
+}
@@ -0,0 +1,168 @@
+/**
+ * Quote scopes
+ *
+ * One description of "which quotes" shared by every endpoint: a set of
+ * sources (any mix of PRELOADED, CUSTOM and FAVORITES) narrowed by categories
+ * (the app's tags), authors and a collection, minus any exclusions. It renders two ways from
+ * the same rules:
+ * - quoteScopeWhere: a Prisma where clause, for regular queries
+ * - quoteScopeSql: a parameterized SQL condition on `"Quote" q`, for queries
+ *   Prisma can't express (full-text ranking, weighted random order)
+ *
+ * Sources are ORed with each other; every other condition is ANDed, so
+ * filters compose without overwriting each other.
+ */
+
+import { Prisma } from '@prisma/client'
+import { inCategoriesWhere } from '@/lib/categories'
+
+export type QuoteSourceKind = 'PRELOADED' | 'CUSTOM' | 'FAVORITES'
+
+// A single stored or requested source; BOTH is shorthand for preloaded + custom
+export type QuoteSource = QuoteSourceKind | 'BOTH'
+
+export const QUOTE_SOURCE_KINDS: readonly QuoteSourceKind[] = ['PRELOADED', 'CUSTOM', 'FAVORITES']
+
+export const DEFAULT_QUOTE_SOURCES: QuoteSourceKind[] = ['PRELOADED', 'CUSTOM']
+
+export interface QuoteScope {
+  userId: string
+  sources: QuoteSourceKind[]
+  categoryIds?: string[] // Tagged with any of these
+  authorIds?: string[] // Attributed to any of these
+  collectionId?: string // In this collection
+  excludeIds?: string[] // Never these quotes
+  excludeCategoryIds?: string[] // Tagged with none of these
+}
+
+// Quotes a user can see: preloaded plus their own
+export function visibleQuotesWhere(userId: string): Prisma.QuoteWhereInput {
+  return {
+    OR: [
+      { isPreloaded: true },
+      { userId, isPreloaded: false }
+    ]
+  }
+}
+
+/**
+ * Canonical source set: BOTH expanded, duplicates and unknown values dropped,
+ * in a fixed order. Falls back to the default mix when nothing is left.
+ */
+export function toSourceSet(sources: readonly string[]): QuoteSourceKind[] {
+  const requested = new Set(sources.flatMap(source => source === 'BOTH' ? DEFAULT_QUOTE_SOURCES : [source]))
+  const set = QUOTE_SOURCE_KINDS.filter(kind => requested.has(kind))
+  return set.length > 0 ? set : DEFAULT_QUOTE_SOURCES
+}
+
+/**
+ * Parse a `source` request param: one value (including BOTH) or a
+ * comma-separated set such as `FAVORITES,CUSTOM`. Null if any part is unknown.
+ */
+export function parseSourceParam(value: string): QuoteSourceKind[] | null {
+  const parts = value.split(',').map(part => part.trim().toUpperCase()).filter(Boolean)
+  if (parts.length === 0) return null
+  if (parts.some(part => part !== 'BOTH' && !QUOTE_SOURCE_KINDS.includes(part as QuoteSourceKind))) return null
+  return toSourceSet(parts)
+}
+
+// The sources saved in preferences; rows saved before source sets use the single value
+export function preferredSources(
+  preferences: { quoteSources: readonly string[]; quoteSource: string } | null
+): QuoteSourceKind[] {
+  if (!preferences) return DEFAULT_QUOTE_SOURCES
+  return toSourceSet(preferences.quoteSources.length > 0 ? preferences.quoteSources : [preferences.quoteSource])
+}
+
+function sourceWhere(source: QuoteSourceKind, userId: string): Prisma.QuoteWhereInput {
+  switch (source) {
+    case 'PRELOADED':
+      return { isPreloaded: true }
+    case 'CUSTOM':
+      return { userId, isPreloaded: false }
+    case 'FAVORITES':
+      return { favorites: { some: { userId } } }
+  }
+}
+
+function sourcesWhere(sources: QuoteSourceKind[], userId: string): Prisma.QuoteWhereInput {
+  if (sources.length === 0) return { id: { in: [] } }
+  return sources.length === 1 ? sourceWhere(sources[0], userId) : { OR: sources.map(source => sourceWhere(source, userId)) }
+}
+
+export function quoteScopeWhere(scope: QuoteScope): Prisma.QuoteWhereInput {
+  const { userId, sources, categoryIds, authorIds, collectionId, excludeIds, excludeCategoryIds } = scope
+  const conditions = [sourcesWhere(sources, userId)]
+
+  if (categoryIds?.length) {
+    conditions.push(inCategoriesWhere(categoryIds))
+  }
+  if (authorIds?.length) {
+    conditions.push({ authorId: { in: authorIds } })
+  }
+  if (collectionId) {
+    conditions.push({ collectionItems: { some: { collectionId } } })
+  }
+  if (excludeIds?.length) {
+    conditions.push({ id: { notIn: excludeIds } })
+  }
+  if (excludeCategoryIds?.length) {
+    conditions.push({ categories: { none: { categoryId: { in: excludeCategoryIds } } } })
+  }
+
+  return conditions.length === 1 ? conditions[0] : { AND: conditions }
+}
+
+function sourceSql(source: QuoteSourceKind, userId: string): Prisma.Sql {
+  switch (source) {
+    case 'PRELOADED':
+      return Prisma.sql`q."isPreloaded" = true`
+    case 'CUSTOM':
+      return Prisma.sql`(q."userId" = ${userId} AND q."isPreloaded" = false)`
+    case 'FAVORITES':
+      return Prisma.sql`EXISTS (SELECT 1 FROM "Favorite" f WHERE f."quoteId" = q.id AND f."userId" = ${userId})`
+  }
+}
+
+function sourcesSql(sources: QuoteSourceKind[], userId: string): Prisma.Sql {
+  if (sources.length === 0) return Prisma.sql`false`
+  return Prisma.sql`(${Prisma.join(sources.map(source => sourceSql(source, userId)), ' OR ')})`
+}
+
+// visibleQuotesWhere for raw queries that alias the quote table as q
+export function visibleQuotesSql(userId: string): Prisma.Sql {
+  return sourcesSql(DEFAULT_QUOTE_SOURCES, userId)
+}
+
+// Same rules as quoteScopeWhere, for raw queries that alias the quote table as q
+export function quoteScopeSql(scope: QuoteScope): Prisma.Sql {
+  const { userId, sources, categoryIds, authorIds, collectionId, excludeIds, excludeCategoryIds } = scope
+  const conditions = [sourcesSql(sources, userId)]
+
+  if (categoryIds?.length) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "QuoteCategory" qc
+      WHERE qc."quoteId" = q.id AND qc."categoryId" IN (${Prisma.join(categoryIds)})
+    )`)
+  }
+  if (authorIds?.length) {
+    conditions.push(Prisma.sql`q."authorId" IN (${Prisma.join(authorIds)})`)
+  }
+  if (collectionId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "CollectionItem" ci
+      WHERE ci."quoteId" = q.id AND ci."collectionId" = ${collectionId}
+    )`)
+  }
+  if (excludeIds?.length) {
+    conditions.push(Prisma.sql`q.id NOT IN (${Prisma.join(excludeIds)})`)
+  }
+  if (excludeCategoryIds?.length) {
+    conditions.push(Prisma.sql`NOT EXISTS (
+      SELECT 1 FROM "QuoteCategory" qc
+      WHERE qc."quoteId" = q.id AND qc."categoryId" IN (${Prisma.join(excludeCategoryIds)})
+    )`)
+  }
+
+  return Prisma.join(conditions, ' AND ')
+}
@@ -2,74 +2,172 @@
  * Quote Service - Optimized random quote delivery
  * 
  * Strategy:
- * 1. Load all quote IDs once per session
- * 2. Shuffle IDs client-side using Fisher-Yates
+ * 1. Load the user's quote IDs once per shuffle (see lib/shuffle-session.ts)
+ * 2. Shuffle them, weighted by the user's rotation boosts
  * 3. Fetch quotes in batches by specific IDs
  * 4. Minimal DB queries, perfect randomization
  */
 
 import { prisma } from '@/lib/prisma'
+import { getCategoriesForQuotes } from '@/lib/categories'
+import { DuplicateIndex, hashQuoteText, type DuplicateCandidate } from '@/lib/duplicates'
+import { getAuthorSlugsForQuotes } from '@/lib/authors'
+import {
+  quoteScopeSql,
+  quoteScopeWhere,
+  visibleQuotesSql,
+  visibleQuotesWhere,
+  preferredSources,
+  DEFAULT_QUOTE_SOURCES,
+  type QuoteScope,
+  type QuoteSourceKind
+} from '@/lib/quote-scope'
+import {
+  DEFAULT_ROTATION_WEIGHTS,
+  NEW_QUOTE_DAYS,
+  rotationWeight,
+  type RotationWeights
+} from '@/lib/weighted-rotation'
 
+/**
+ * Server-side: Resolve the quote scope for a request. Without explicit
+ * sources or categories the ones chosen in preferences apply (author browsing
+ * shows the whole author instead). A collection picked in preferences replaces
+ * both unless the request filters on its own. Exclusions always apply.
+ * Returns null for an unknown author slug.
+ */
+export async function resolveQuoteScope(
+  userId: string,
+  filters: {
+    sources?: QuoteSourceKind[] | null
+    categoryIds: string[]
+    authorSlug?: string | null
+    excludeIds?: string[]
+    excludeCategoryIds?: string[]
+  }
+): Promise<QuoteScope | null> {
+  const { excludeIds, excludeCategoryIds } = filters
 
-interface QuoteServiceOptions {
-  source: 'PRELOADED' | 'CUSTOM' | 'FAVORITES' | 'BOTH'
-  userId: string
-  category?: string
-}
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+    select: {
+      quoteSource: true,
+      quoteSources: true,
+      collectionId: true,
+      categories: { select: { id: true } }
+    }
+  })
 
-// Server-side: Get all available quote IDs (lightweight query)
-export async function getQuoteIds(options: QuoteServiceOptions): Promise<string[]> {
-  const { source, userId, category } = options
-  
-  const whereClause: Record<string, unknown> = {}
-  
-  // Build where clause based on source preference
-  switch (source) {
-    case 'PRELOADED':
-      whereClause.isPreloaded = true
-      break
-    case 'CUSTOM':
-      whereClause.userId = userId
-      whereClause.isPreloaded = false
-      break
-    case 'FAVORITES':
-      const favorites = await prisma.favorite.findMany({
-        where: { userId },
-        select: { quoteId: true }
-      })
-      return favorites.map(f => f.quoteId)
-    case 'BOTH':
-    default:
-      whereClause.OR = [
-        { isPreloaded: true },
-        { userId, isPreloaded: false }
-      ]
+  // Every visible quote in the collection, whatever the source settings say
+  const unfiltered = !filters.sources && filters.categoryIds.length === 0 && !filters.authorSlug
+  if (unfiltered && preferences?.collectionId) {
+    return { sources: DEFAULT_QUOTE_SOURCES, userId, collectionId: preferences.collectionId, excludeIds, excludeCategoryIds }
   }
-  
-  if (category) {
-    whereClause.category = category
+
+  let categoryIds = filters.categoryIds
+  if (categoryIds.length === 0 && !filters.authorSlug) {
+    categoryIds = preferences?.categories.map(c => c.id) ?? []
   }
-  
-  // Fetch only IDs - very lightweight
+
+  let authorIds: string[] | undefined
+  if (filters.authorSlug) {
+    const author = await prisma.author.findUnique({
+      where: { slug: filters.authorSlug },
+      select: { id: true }
+    })
+    if (!author) return null
+    authorIds = [author.id]
+  }
+
+  return {
+    sources: filters.sources ?? preferredSources(preferences),
+    userId,
+    categoryIds,
+    authorIds,
+    excludeIds,
+    excludeCategoryIds
+  }
+}
+
+// Server-side: Get all quote IDs in scope (lightweight query)
+export async function getQuoteIds(scope: QuoteScope): Promise<string[]> {
   const quotes = await prisma.quote.findMany({
-    where: whereClause,
+    where: quoteScopeWhere(scope),
     select: { id: true }
   })
   
   return quotes.map(q => q.id)
 }
 
-// Server-side: Fetch specific quotes by IDs
+export async function getUserRotationWeights(userId: string): Promise<RotationWeights> {
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+    select: { favoriteWeight: true, newQuoteWeight: true, unseenWeight: true }
+  })
+  if (!preferences) return DEFAULT_ROTATION_WEIGHTS
+
+  return {
+    favorite: preferences.favoriteWeight,
+    newQuote: preferences.newQuoteWeight,
+    unseen: preferences.unseenWeight
+  }
+}
+
+export function newQuoteCutoff(): Date {
+  return new Date(Date.now() - NEW_QUOTE_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Server-side: Rotation weight for each of `ids` that differs from 1.
+ * Quotes left out of the map have the baseline weight.
+ */
+export async function getRotationWeights(ids: string[], userId: string): Promise<Map<string, number>> {
+  const weights = new Map<string, number>()
+  if (ids.length === 0) return weights
+
+  const [boosts, favorites, newQuotes, viewed] = await Promise.all([
+    getUserRotationWeights(userId),
+    prisma.favorite.findMany({
+      where: { userId, quoteId: { in: ids } },
+      select: { quoteId: true }
+    }),
+    prisma.quote.findMany({
+      where: { id: { in: ids }, userId, isPreloaded: false, createdAt: { gt: newQuoteCutoff() } },
+      select: { id: true }
+    }),
+    prisma.quoteView.findMany({
+      where: { userId, quoteId: { in: ids } },
+      select: { quoteId: true },
+      distinct: ['quoteId']
+    })
+  ])
+
+  const favoriteSet = new Set(favorites.map(f => f.quoteId))
+  const newSet = new Set(newQuotes.map(q => q.id))
+  const viewedSet = new Set(viewed.map(v => v.quoteId))
+
+  for (const id of ids) {
+    const weight = rotationWeight({
+      isFavorite: favoriteSet.has(id),
+      isNew: newSet.has(id),
+      isUnseen: !viewedSet.has(id)
+    }, boosts)
+    if (weight !== 1) weights.set(id, weight)
+  }
+  return weights
+}
+
+// Server-side: Fetch specific quotes by IDs; ones the user can't see are left out
 export async function getQuotesByIds(ids: string[], userId: string) {
   const quotes = await prisma.quote.findMany({
     where: {
+      ...visibleQuotesWhere(userId),
       id: { in: ids }
     },
     select: {
       id: true,
       text: true,
       author: true,
-      category: true,
       source: true,
       isPreloaded: true,
       createdAt: true,
@@ -77,26 +175,178 @@ export async function getQuotesByIds(ids: string[], userId: string) {
     }
   })
   
-  // Get favorites for these quotes
-  const favorites = await prisma.favorite.findMany({
-    where: {
-      userId,
-      quoteId: { in: ids }
-    },
-    select: { quoteId: true }
-  })
+  // Get favorites, categories and author pages for these quotes
+  const [favorites, categoriesByQuote, authorSlugs] = await Promise.all([
+    prisma.favorite.findMany({
+      where: {
+        userId,
+        quoteId: { in: ids }
+      },
+      select: { quoteId: true }
+    }),
+    getCategoriesForQuotes(ids),
+    getAuthorSlugsForQuotes(ids)
+  ])
   
   const favoriteSet = new Set(favorites.map(f => f.quoteId))
   
-  // Add favorite status and format dates
+  // Add favorite status, categories and format dates
   return quotes.map(quote => ({
     ...quote,
+    categories: categoriesByQuote.get(quote.id) ?? [],
+    authorSlug: authorSlugs.get(quote.id) ?? null,
     isFavorited: favoriteSet.has(quote.id),
     createdAt: quote.createdAt.toISOString(),
     updatedAt: quote.updatedAt.toISOString()
   }))
 }
 
+// Server-side: Fetch a single quote by ID (same shape as getQuotesByIds)
+export async function getQuoteById(id: string, userId: string) {
+  const [quote] = await getQuotesByIds([id], userId)
+  return quote ?? null
+}
+
+const NEAR_DUPLICATE_CANDIDATES = 5 // Closest trigram matches fetched per text
+
+/**
+ * Visible quotes that could duplicate any of `texts`: exact matches by the
+ * indexed textHash, plus the few closest by pg_trgm similarity for each text
+ * (served by the trigram index on Quote.text). This only bounds the set;
+ * DuplicateIndex does the actual scoring.
+ */
+export async function findDuplicateCandidates(texts: string[], userId: string): Promise<DuplicateCandidate[]> {
+  if (texts.length === 0) return []
+
+  const [exact, near] = await Promise.all([
+    prisma.quote.findMany({
+      where: { ...visibleQuotesWhere(userId), textHash: { in: texts.map(hashQuoteText) } },
+      select: { id: true, text: true, author: true }
+    }),
+    prisma.$queryRaw<DuplicateCandidate[]>`
+      SELECT DISTINCT c.id, c.text, c.author
+      FROM unnest(${texts}::text[]) AS t(text)
+      CROSS JOIN LATERAL (
+        SELECT q.id, q.text, q.author
+        FROM "Quote" q
+        WHERE q.text % t.text AND ${visibleQuotesSql(userId)}
+        ORDER BY similarity(q.text, t.text) DESC
+        LIMIT ${NEAR_DUPLICATE_CANDIDATES}
+      ) c
+    `
+  ])
+
+  const byId = new Map([...exact, ...near].map(quote => [quote.id, quote]))
+  return [...byId.values()]
+}
+
+// Find a quote the user can already see that duplicates `text`
+export async function findDuplicateQuote(text: string, userId: string) {
+  const candidates = await findDuplicateCandidates([text], userId)
+  const match = new DuplicateIndex(candidates).findMatch(text)
+  if (!match) return null
+
+  const quote = await getQuoteById(match.quote.id, userId)
+  return quote && { quote, similarity: match.similarity, exact: match.exact }
+}
+
+interface SearchQuotesOptions extends QuoteScope {
+  query: string
+  limit?: number
+}
+
+interface SearchQuoteRow {
+  id: string
+  text: string
+  author: string
+  source: string | null
+  isPreloaded: boolean
+  createdAt: Date
+  updatedAt: Date
+  rank: number
+  textHeadline: string
+  authorHeadline: string
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// ts_headline markers; unlikely to appear in quote text and never sent to the client
+const HIGHLIGHT_START = '\u27e6'
+const HIGHLIGHT_STOP = '\u27e7'
+
+// Split a ts_headline result into plain/matched segments so the UI can
+// render highlights without injecting HTML from user content
+export function parseHighlight(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  const pattern = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_STOP}`, 'g')
+  let lastIndex = 0
+  
+  for (const match of headline.matchAll(pattern)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: headline.slice(lastIndex, match.index), match: false })
+    }
+    segments.push({ text: match[1], match: true })
+    lastIndex = match.index + match[0].length
+  }
+  
+  if (lastIndex < headline.length) {
+    segments.push({ text: headline.slice(lastIndex), match: false })
+  }
+  
+  return segments
+}
+
+// Server-side: Ranked full-text search over quote text and author
+export async function searchQuotes(options: SearchQuotesOptions) {
+  const { query, limit = 20, ...scope } = options
+  const { userId } = scope
+  
+  const headlineOptions = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=35, MinWords=15`
+  
+  const rows = await prisma.$queryRaw<SearchQuoteRow[]>`
+    SELECT q.id, q.text, q.author, q.source, q."isPreloaded", q."createdAt", q."updatedAt",
+      ts_rank(q."searchVector", query) AS rank,
+      ts_headline('english', q.text, query, ${headlineOptions}) AS "textHeadline",
+      ts_headline('english', q.author, query, ${headlineOptions + ', HighlightAll=true'}) AS "authorHeadline"
+    FROM "Quote" q, websearch_to_tsquery('english', ${query}) query
+    WHERE q."searchVector" @@ query AND ${quoteScopeSql(scope)}
+    ORDER BY rank DESC, q."createdAt" DESC
+    LIMIT ${limit}
+  `
+  
+  const ids = rows.map(row => row.id)
+  const [favorites, categoriesByQuote, authorSlugs] = await Promise.all([
+    prisma.favorite.findMany({
+      where: {
+        userId,
+        quoteId: { in: ids }
+      },
+      select: { quoteId: true }
+    }),
+    getCategoriesForQuotes(ids),
+    getAuthorSlugsForQuotes(ids)
+  ])
+  
+  const favoriteSet = new Set(favorites.map(f => f.quoteId))
+  
+  return rows.map(({ rank, textHeadline, authorHeadline, ...quote }) => ({
+    ...quote,
+    categories: categoriesByQuote.get(quote.id) ?? [],
+    authorSlug: authorSlugs.get(quote.id) ?? null,
+    isFavorited: favoriteSet.has(quote.id),
+    createdAt: quote.createdAt.toISOString(),
+    updatedAt: quote.updatedAt.toISOString(),
+    rank: Number(rank),
+    highlights: {
+      text: parseHighlight(textHeadline),
+      author: parseHighlight(authorHeadline)
+    }
+  }))
+}
+
 // Client-side utility: Fisher-Yates shuffle algorithm
 export function shuffleArray<T>(array: T[]): T[] {
   const shuffled = [...array]
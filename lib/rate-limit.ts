@@ -0,0 +1,177 @@
+/**
+ * Rate limiting
+ *
+ * Fixed-window counters: each key counts hits until its window ends, then
+ * starts again from one. Counters live in memory by default, which is enough
+ * for a single server; RATE_LIMIT_STORE=postgres keeps them in the
+ * RateLimitCounter table so every instance sees the same counts.
+ *
+ * Routes call enforceRateLimit and turn RateLimitError into a 429 with
+ * Retry-After. Keys are built from the client IP (see clientIp) and, where a
+ * route acts on an address, the normalized email, so neither spreading
+ * requests over many emails nor over many IPs gets around the limits.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+export const RATE_LIMITS = {
+  login: { limit: 20, windowMs: 15 * 60 * 1000 }, // Password sign-ins per IP
+  signup: { limit: 5, windowMs: 60 * 60 * 1000 }, // Accounts created per IP
+  emailLink: { limit: 5, windowMs: 60 * 60 * 1000 }, // Verification or reset emails per IP, and per address
+  currentPassword: { limit: 5, windowMs: 15 * 60 * 1000 } // Current-password checks per signed-in user
+} satisfies Record<string, RateLimitRule>
+
+export interface RateLimitCounter {
+  count: number
+  resetAt: Date
+}
+
+export interface RateLimitStore {
+  // Count one hit, starting a new window if the last one has ended
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>
+  // The current window's counter, or null if there isn't a live one
+  get(key: string): Promise<RateLimitCounter | null>
+  reset(key: string): Promise<void>
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    public retryAfter: number, // Seconds
+    message = 'Too many requests. Please try again later.'
+  ) {
+    super(message)
+    this.name = 'RateLimitError'
+  }
+}
+
+const PRUNE_EVERY = 500 // Hits between sweeps of expired counters
+
+function memoryStore(): RateLimitStore {
+  const counters = new Map<string, RateLimitCounter>()
+  let hits = 0
+
+  const live = (key: string, now: number) => {
+    const counter = counters.get(key)
+    return counter && counter.resetAt.getTime() > now ? counter : null
+  }
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now()
+      if (++hits % PRUNE_EVERY === 0) {
+        for (const [staleKey, counter] of counters) {
+          if (counter.resetAt.getTime() <= now) counters.delete(staleKey)
+        }
+      }
+
+      const counter = live(key, now) ?? { count: 0, resetAt: new Date(now + windowMs) }
+      counter.count++
+      counters.set(key, counter)
+      return { ...counter }
+    },
+    async get(key) {
+      const counter = live(key, Date.now())
+      return counter ? { ...counter } : null
+    },
+    async reset(key) {
+      counters.delete(key)
+    }
+  }
+}
+
+function postgresStore(): RateLimitStore {
+  let hits = 0
+
+  return {
+    // One statement, so concurrent hits on a key can't both start a window
+    async increment(key, windowMs) {
+      const now = new Date()
+      if (++hits % PRUNE_EVERY === 0) {
+        await prisma.rateLimitCounter.deleteMany({ where: { resetAt: { lte: now } } })
+      }
+
+      const [counter] = await prisma.$queryRaw<RateLimitCounter[]>(Prisma.sql`
+        INSERT INTO "RateLimitCounter" ("key", "count", "resetAt")
+        VALUES (${key}, 1, ${new Date(now.getTime() + windowMs)})
+        ON CONFLICT ("key") DO UPDATE SET
+          "count" = CASE WHEN "RateLimitCounter"."resetAt" <= ${now} THEN 1 ELSE "RateLimitCounter"."count" + 1 END,
+          "resetAt" = CASE WHEN "RateLimitCounter"."resetAt" <= ${now} THEN EXCLUDED."resetAt" ELSE "RateLimitCounter"."resetAt" END
+        RETURNING "count", "resetAt"
+      `)
+      return counter
+    },
+    async get(key) {
+      return prisma.rateLimitCounter.findFirst({
+        where: { key, resetAt: { gt: new Date() } },
+        select: { count: true, resetAt: true }
+      })
+    },
+    async reset(key) {
+      await prisma.rateLimitCounter.deleteMany({ where: { key } })
+    }
+  }
+}
+
+function createStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE || 'memory'
+  switch (kind) {
+    case 'memory':
+      return memoryStore()
+    case 'postgres':
+      return postgresStore()
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}"`)
+  }
+}
+
+// Survives dev hot reloads, like the Prisma client
+const globalForRateLimit = global as unknown as { rateLimitStore?: RateLimitStore }
+
+export function rateLimitStore(): RateLimitStore {
+  globalForRateLimit.rateLimitStore ??= createStore()
+  return globalForRateLimit.rateLimitStore
+}
+
+export function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000))
+}
+
+// Count a hit against `key`, throwing once it's over the rule's limit
+export async function enforceRateLimit(rule: RateLimitRule, key: string): Promise<void> {
+  const { count, resetAt } = await rateLimitStore().increment(key, rule.windowMs)
+  if (count > rule.limit) {
+    throw new RateLimitError(secondsUntil(resetAt))
+  }
+}
+
+// Proxies in front of the app that append to X-Forwarded-For (Vercel or one
+// nginx: 1). Anything left of the entries they add came from the client.
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1)
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1
+}
+
+// The X-Forwarded-For entry added by the outermost trusted proxy, counted
+// from the right: clients can prepend whatever they like, but not past the
+// proxies. With TRUSTED_PROXY_HOPS=0 the header is ignored and everyone
+// shares one key, so deployments that expose Next directly should add a proxy.
+export function clientIp(request: Request): string {
+  const hops = trustedProxyHops()
+  if (hops === 0) return 'unknown'
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+  return forwarded.at(-hops) || request.headers.get('x-real-ip') || 'unknown'
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
@@ -0,0 +1,249 @@
+/**
+ * Rotation engine
+ *
+ * One queue for the quotes screen, fed by a pluggable strategy:
+ * - RANDOM: database-level random batches (GET /api/quotes?random=true)
+ * - SHUFFLE: server-side shuffle session with every quote equally likely
+ * - WEIGHTED: server-side shuffle session using the user's rotation boosts
+ * - DAILY: just today's quote of the day
+ *
+ * The queue itself is a pure reducer so its behavior can be checked without
+ * React or a network (see scripts/check-rotation-engine.ts); hooks/use-rotation.ts
+ * wires it to the strategies.
+ */
+
+import type { CategorySummary } from '@/lib/categories'
+
+export type RotationStrategyName = 'RANDOM' | 'SHUFFLE' | 'WEIGHTED' | 'DAILY'
+
+export const DEFAULT_ROTATION_STRATEGY: RotationStrategyName = 'WEIGHTED'
+
+export interface RotationQuote {
+  id: string
+  text: string
+  author: string
+  categories?: CategorySummary[]
+  authorSlug?: string | null
+  source?: string
+  isPreloaded: boolean
+  isFavorited: boolean
+  createdAt: string
+}
+
+export interface RotationBatch {
+  quotes: RotationQuote[]
+  cursor: string | null
+  total: number
+  hasMore: boolean
+  reshuffled?: boolean
+}
+
+export interface BatchRequest {
+  limit: number
+  cursor: string | null
+  restart: boolean
+}
+
+export interface RotationStrategy {
+  fetchBatch(request: BatchRequest): Promise<RotationBatch>
+}
+
+// ---------------------------------------------------------------------------
+// Strategies
+// ---------------------------------------------------------------------------
+
+const DEVICE_ID_KEY = 'inspiro-device-id'
+
+// Identifies this browser's shuffle session on the server
+function getDeviceId() {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error('Failed to fetch quotes')
+  }
+  return response.json()
+}
+
+function shuffleSessionStrategy(weighted: boolean): RotationStrategy {
+  return {
+    async fetchBatch({ limit, cursor, restart }) {
+      const params = new URLSearchParams({
+        device: getDeviceId(),
+        limit: String(limit),
+        weighted: String(weighted),
+      })
+      if (restart) {
+        params.set('restart', 'true')
+      } else if (cursor) {
+        params.set('cursor', cursor)
+      }
+
+      const data = await fetchJson<{ quotes: RotationQuote[]; cursor: string | null; total: number; reshuffled: boolean }>(
+        `/api/quotes/next?${params}`
+      )
+      // Sessions reshuffle when they run out, so only an empty pool ends rotation
+      return { ...data, hasMore: data.total > 0 }
+    },
+  }
+}
+
+export const ROTATION_STRATEGIES: Record<RotationStrategyName, RotationStrategy> = {
+  RANDOM: {
+    async fetchBatch({ limit }) {
+      // Timestamp keeps intermediaries from caching a random batch
+      const data = await fetchJson<{ quotes: RotationQuote[]; total: number }>(
+        `/api/quotes?random=true&count=${limit}&t=${Date.now()}`
+      )
+      return { quotes: data.quotes, cursor: null, total: data.total, hasMore: data.total > 0 }
+    },
+  },
+  SHUFFLE: shuffleSessionStrategy(false),
+  WEIGHTED: shuffleSessionStrategy(true),
+  DAILY: {
+    async fetchBatch() {
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone
+      const data = await fetchJson<{ quote: RotationQuote | null }>(
+        `/api/quotes/daily?tz=${encodeURIComponent(tz)}`
+      )
+      const quotes = data.quote ? [data.quote] : []
+      return { quotes, cursor: null, total: quotes.length, hasMore: false }
+    },
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Queue
+// ---------------------------------------------------------------------------
+
+export interface RotationState {
+  strategy: RotationStrategyName | null
+  current: RotationQuote | null
+  queue: RotationQuote[]
+  cursor: string | null
+  total: number
+  shown: number // Quotes shown from this strategy since the last reset
+  // paused: the last batch had nothing new (small pool); load again once the user moves on
+  status: 'idle' | 'loading' | 'paused' | 'exhausted' | 'error'
+  advancePending: boolean // "Next" was pressed while the queue was empty
+  restart: boolean // The next request should start a fresh order
+  requestId: number // Bumped per request and by resets; responses for other IDs are dropped
+}
+
+export type RotationAction =
+  | { type: 'start'; strategy: RotationStrategyName }
+  | { type: 'request'; requestId: number }
+  | { type: 'loaded'; requestId: number; batch: RotationBatch }
+  | { type: 'failed'; requestId: number }
+  | { type: 'next' }
+  | { type: 'show'; quote: RotationQuote }
+  | { type: 'update'; quote: Partial<RotationQuote> & { id: string } }
+  | { type: 'remove'; id: string }
+  | { type: 'reset' }
+
+export const initialRotationState: RotationState = {
+  strategy: null,
+  current: null,
+  queue: [],
+  cursor: null,
+  total: 0,
+  shown: 0,
+  status: 'idle',
+  advancePending: false,
+  restart: false,
+  requestId: 0,
+}
+
+// Move the head of the queue on screen
+function advance(state: RotationState): RotationState {
+  const [next, ...rest] = state.queue
+  if (!next) return state
+  return {
+    ...state,
+    current: next,
+    queue: rest,
+    shown: state.shown + 1,
+    advancePending: false,
+    status: state.status === 'paused' ? 'idle' : state.status,
+  }
+}
+
+export function rotationReducer(state: RotationState, action: RotationAction): RotationState {
+  switch (action.type) {
+    // Switching strategy starts over; the first one resumes any server-side session
+    case 'start':
+      if (action.strategy === state.strategy) return state
+      return { ...initialRotationState, strategy: action.strategy, requestId: state.requestId + 1 }
+
+    // The requester passes the ID it saw; the response must carry the next one
+    case 'request':
+      if (action.requestId !== state.requestId || state.status !== 'idle') return state
+      return { ...state, status: 'loading', restart: false, requestId: state.requestId + 1 }
+
+    case 'loaded': {
+      if (action.requestId !== state.requestId || state.status !== 'loading') return state
+      const { batch } = action
+      // Random batches can repeat quotes that are already queued or on screen
+      const present = new Set([state.current?.id, ...state.queue.map(quote => quote.id)])
+      const added = batch.quotes.filter(quote => !present.has(quote.id))
+      const loaded: RotationState = {
+        ...state,
+        queue: [...state.queue, ...added],
+        cursor: batch.cursor,
+        total: batch.total,
+        status: !batch.hasMore ? 'exhausted' : added.length === 0 ? 'paused' : 'idle',
+      }
+      return !loaded.current || loaded.advancePending ? advance(loaded) : loaded
+    }
+
+    case 'failed':
+      if (action.requestId !== state.requestId || state.status !== 'loading') return state
+      return { ...state, status: 'error', advancePending: false }
+
+    case 'next':
+      if (state.queue.length > 0) return advance(state)
+      // Nothing left to load (e.g. the daily quote): stay put
+      if (state.status === 'exhausted') return state
+      // Shown once the next batch lands; a failed or paused load is retried
+      return {
+        ...state,
+        advancePending: true,
+        status: state.status === 'error' || state.status === 'paused' ? 'idle' : state.status,
+      }
+
+    case 'show':
+      return { ...state, current: action.quote, advancePending: false }
+
+    case 'update': {
+      const apply = (quote: RotationQuote) => quote.id === action.quote.id ? { ...quote, ...action.quote } : quote
+      return {
+        ...state,
+        current: state.current && apply(state.current),
+        queue: state.queue.map(apply),
+      }
+    }
+
+    case 'remove': {
+      const queue = state.queue.filter(quote => quote.id !== action.id)
+      if (state.current?.id !== action.id) return { ...state, queue }
+      return queue.length > 0
+        ? advance({ ...state, queue })
+        : { ...state, current: null, queue, advancePending: state.status !== 'exhausted' }
+    }
+
+    case 'reset':
+      return { ...initialRotationState, strategy: state.strategy, restart: true, requestId: state.requestId + 1 }
+  }
+}
+
+// Whether the engine should request another batch now
+export function needsBatch(state: RotationState, prefetchThreshold: number): boolean {
+  return state.strategy !== null && state.status === 'idle' && state.queue.length <= prefetchThreshold
+}
@@ -0,0 +1,92 @@
+/**
+ * Route handlers
+ *
+ * withAuth wraps an App Router handler so it only runs for a signed-in user,
+ * handing it the session with `user.id` guaranteed, and answers 401 without
+ * one. withErrors is the same minus the session check, for the few public
+ * routes (sign-up, email links, password resets). Both answer the errors
+ * every route shares the same way: 400 for a malformed JSON body, 400 with
+ * details for invalid input, 429 with Retry-After for rate limits, and a
+ * logged 500 for anything unexpected. Errors specific to a route are mapped
+ * to a status through the `errors` option.
+ *
+ * Pages are guarded separately by middleware.ts, which redirects instead.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session } from 'next-auth'
+import { z } from 'zod'
+import { auth } from '@/lib/auth'
+import { RateLimitError } from '@/lib/rate-limit'
+
+export interface AuthSession extends Session {
+  user: NonNullable<Session['user']> & { id: string }
+}
+
+export interface RouteContext<Params> {
+  params: Promise<Params>
+}
+
+export interface AuthContext<Params> extends RouteContext<Params> {
+  session: AuthSession
+}
+
+type ErrorClass = abstract new (...args: never[]) => Error
+
+export interface WithAuthOptions {
+  // Errors answered with their message and the given status, checked in order
+  errors?: Array<[ErrorClass, number]>
+}
+
+export function errorResponse(status: number, error: string, init?: ResponseInit): NextResponse {
+  return NextResponse.json({ error }, { ...init, status })
+}
+
+function handleError(error: unknown, request: NextRequest, options: WithAuthOptions): NextResponse {
+  const mapped = options.errors?.find(([errorClass]) => error instanceof errorClass)
+  if (mapped && error instanceof Error) {
+    return errorResponse(mapped[1], error.message)
+  }
+  if (error instanceof RateLimitError) {
+    return errorResponse(429, error.message, { headers: { 'Retry-After': String(error.retryAfter) } })
+  }
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid data', details: error.errors }, { status: 400 })
+  }
+  // request.json() on a body that isn't JSON
+  if (error instanceof SyntaxError) {
+    return errorResponse(400, 'Invalid JSON')
+  }
+
+  console.error(`${request.method} ${request.nextUrl.pathname} error:`, error)
+  return errorResponse(500, 'Internal server error')
+}
+
+// For routes anyone may call; everything else uses withAuth
+export function withErrors<Params extends Record<string, string> = Record<string, never>>(
+  handler: (request: NextRequest, context: RouteContext<Params>) => Promise<Response>,
+  options: WithAuthOptions = {}
+) {
+  return async (request: NextRequest, context: RouteContext<Params>): Promise<Response> => {
+    try {
+      return await handler(request, context)
+    } catch (error) {
+      return handleError(error, request, options)
+    }
+  }
+}
+
+// Params is the dynamic segment shape, e.g. withAuth<{ id: string }>(...)
+export function withAuth<Params extends Record<string, string> = Record<string, never>>(
+  handler: (request: NextRequest, context: AuthContext<Params>) => Promise<Response>,
+  options: WithAuthOptions = {}
+) {
+  return withErrors<Params>(async (request, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return errorResponse(401, 'Unauthorized')
+    }
+
+    return handler(request, { session: session as AuthSession, params })
+  }, options)
+}
@@ -0,0 +1,126 @@
+/**
+ * Share links
+ *
+ * Public, read-only links to one quote or one collection, for people without
+ * an account. Each link carries an unguessable token (128 random bits) that
+ * /q/[token] and /c/[token] resolve without a session. Revoking keeps the row,
+ * and its view count, but the pages stop resolving it. Sharing the same thing
+ * again returns the link that's still active rather than minting another.
+ *
+ * Shared pages only ever see the fields below; nothing about the owner or
+ * their other quotes leaves the database.
+ */
+
+import { randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export type ShareTarget = { quoteId: string } | { collectionId: string }
+
+const sharedQuoteSelect = {
+  id: true,
+  text: true,
+  author: true,
+  source: true
+} satisfies Prisma.QuoteSelect
+
+export type SharedQuote = Prisma.QuoteGetPayload<{ select: typeof sharedQuoteSelect }>
+
+export const shareLinkSelect = {
+  id: true,
+  token: true,
+  viewCount: true,
+  lastViewedAt: true,
+  createdAt: true,
+  quote: { select: { id: true, text: true, author: true } },
+  collection: { select: { id: true, name: true } }
+} satisfies Prisma.ShareLinkSelect
+
+type ShareLinkRow = Prisma.ShareLinkGetPayload<{ select: typeof shareLinkSelect }>
+
+function createShareToken(): string {
+  return randomBytes(16).toString('base64url')
+}
+
+export function sharePath(link: { token: string; quote: unknown }): string {
+  return link.quote ? `/q/${link.token}` : `/c/${link.token}`
+}
+
+export function formatShareLink(link: ShareLinkRow) {
+  return {
+    ...link,
+    path: sharePath(link),
+    lastViewedAt: link.lastViewedAt?.toISOString() ?? null,
+    createdAt: link.createdAt.toISOString()
+  }
+}
+
+// The active link for a target, created if there isn't one. The caller checks
+// that the user may share it.
+export async function getOrCreateShareLink(userId: string, target: ShareTarget) {
+  const existing = await prisma.shareLink.findFirst({
+    where: { userId, revokedAt: null, ...target },
+    select: shareLinkSelect,
+    orderBy: { createdAt: 'desc' }
+  })
+  if (existing) return { link: existing, created: false }
+
+  const link = await prisma.shareLink.create({
+    data: { userId, token: createShareToken(), ...target },
+    select: shareLinkSelect
+  })
+  return { link, created: true }
+}
+
+export async function revokeShareLink(id: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.shareLink.updateMany({
+    where: { id, userId, revokedAt: null },
+    data: { revokedAt: new Date() }
+  })
+  return count > 0
+}
+
+export async function getSharedQuote(token: string) {
+  const link = await prisma.shareLink.findUnique({
+    where: { token },
+    select: { id: true, revokedAt: true, quote: { select: sharedQuoteSelect } }
+  })
+  if (!link || link.revokedAt || !link.quote) return null
+
+  return { linkId: link.id, quote: link.quote }
+}
+
+export async function getSharedCollection(token: string) {
+  const link = await prisma.shareLink.findUnique({
+    where: { token },
+    select: {
+      id: true,
+      revokedAt: true,
+      collection: {
+        select: {
+          name: true,
+          description: true,
+          items: {
+            select: { quote: { select: sharedQuoteSelect } },
+            orderBy: [{ position: 'asc' }, { createdAt: 'asc' }]
+          }
+        }
+      }
+    }
+  })
+  if (!link || link.revokedAt || !link.collection) return null
+
+  const { items, ...collection } = link.collection
+  return {
+    linkId: link.id,
+    collection,
+    quotes: items.map(item => item.quote)
+  }
+}
+
+export async function recordShareView(linkId: string): Promise<void> {
+  await prisma.shareLink.update({
+    where: { id: linkId },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() }
+  })
+}
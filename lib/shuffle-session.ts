@@ -0,0 +1,202 @@
+/**
+ * Shuffle sessions
+ *
+ * The rotation order lives on the server instead of the client:
+ * 1. The first request from a device builds a seeded permutation of the user's
+ *    quote pool (unseen quotes first, as in rotation), optionally weighted by
+ *    the user's rotation boosts, and stores it
+ * 2. Each request serves the next batch and advances the stored position
+ * 3. A device without a session picks up the user's most recent one, so
+ *    rotation resumes where it left off on another device
+ * 4. When the order runs out, it is rebuilt with a new seed
+ *
+ * Cursors are opaque to clients; they name the session, its seed and a position.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  getQuoteIds,
+  getQuotesByIds,
+  getRotationWeights
+} from '@/lib/quote-service'
+import type { QuoteScope } from '@/lib/quote-scope'
+import { getViewHistoryDays, partitionBySeen } from '@/lib/view-history'
+import { seededRandom, weightedShuffle } from '@/lib/weighted-rotation'
+
+export const DEFAULT_SHUFFLE_BATCH_SIZE = 10
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid cursor') {
+    super(message)
+    this.name = 'InvalidCursorError'
+  }
+}
+
+interface ShuffleCursor {
+  sessionId: string
+  seed: number
+  position: number
+}
+
+export function encodeCursor(cursor: ShuffleCursor): string {
+  return Buffer.from(`${cursor.sessionId}:${cursor.seed}:${cursor.position}`).toString('base64url')
+}
+
+export function decodeCursor(value: string): ShuffleCursor {
+  const [sessionId, seed, position] = Buffer.from(value, 'base64url').toString().split(':')
+  const parsed = { sessionId, seed: Number(seed), position: Number(position) }
+
+  if (!sessionId || !Number.isInteger(parsed.seed) || !Number.isInteger(parsed.position) || parsed.position < 0) {
+    throw new InvalidCursorError()
+  }
+  return parsed
+}
+
+// Sessions are only reused for the filters (and weighting) they were built with
+function filterKey(scope: QuoteScope, weighted: boolean): string {
+  const { sources, categoryIds, authorIds, collectionId, excludeIds, excludeCategoryIds } = scope
+  const sorted = (ids?: string[]) => [...(ids ?? [])].sort()
+  return JSON.stringify([
+    sources,
+    sorted(categoryIds),
+    sorted(authorIds),
+    collectionId ?? null,
+    sorted(excludeIds),
+    sorted(excludeCategoryIds),
+    weighted
+  ])
+}
+
+function newSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31)
+}
+
+// The same pool and seed always produce the same order
+async function buildOrder(scope: QuoteScope, weighted: boolean, seed: number): Promise<string[]> {
+  const ids = (await getQuoteIds(scope)).sort()
+  const historyDays = await getViewHistoryDays(scope.userId)
+  const [{ fresh, seen }, weights] = await Promise.all([
+    partitionBySeen(ids, scope.userId, historyDays),
+    weighted ? getRotationWeights(ids, scope.userId) : new Map<string, number>()
+  ])
+
+  return [...weightedShuffle(fresh, id => weights.get(id), seededRandom(seed)), ...seen]
+}
+
+async function startSession(userId: string, deviceId: string, scope: QuoteScope, weighted: boolean) {
+  const seed = newSeed()
+  const data = {
+    filterKey: filterKey(scope, weighted),
+    seed,
+    quoteIds: await buildOrder(scope, weighted, seed),
+    position: 0
+  }
+
+  return prisma.shuffleSession.upsert({
+    where: { userId_deviceId: { userId, deviceId } },
+    update: data,
+    create: { ...data, userId, deviceId }
+  })
+}
+
+// This device's session, else a copy of the user's most recent matching one
+async function findOrResumeSession(userId: string, deviceId: string, key: string) {
+  const own = await prisma.shuffleSession.findUnique({
+    where: { userId_deviceId: { userId, deviceId } }
+  })
+  if (own?.filterKey === key) return own
+
+  const latest = await prisma.shuffleSession.findFirst({
+    where: { userId, filterKey: key, deviceId: { not: deviceId } },
+    orderBy: { updatedAt: 'desc' }
+  })
+  if (!latest) return null
+
+  const data = {
+    filterKey: key,
+    seed: latest.seed,
+    quoteIds: latest.quoteIds,
+    position: latest.position
+  }
+  return prisma.shuffleSession.upsert({
+    where: { userId_deviceId: { userId, deviceId } },
+    update: data,
+    create: { ...data, userId, deviceId }
+  })
+}
+
+interface NextBatchOptions {
+  deviceId: string
+  scope: QuoteScope
+  cursor?: string
+  limit?: number
+  restart?: boolean
+  weighted?: boolean // Apply the user's rotation boosts (default); otherwise a plain shuffle
+}
+
+/**
+ * Serve the next batch of a user's shuffle session. A cursor continues from
+ * exactly that point (retries get the same batch); without one, the session's
+ * stored position is used.
+ */
+export async function getNextShuffleBatch({
+  deviceId,
+  scope,
+  cursor,
+  limit = DEFAULT_SHUFFLE_BATCH_SIZE,
+  restart = false,
+  weighted = true
+}: NextBatchOptions) {
+  const { userId } = scope
+  const key = filterKey(scope, weighted)
+
+  let session = null
+  let position = 0
+
+  if (cursor && !restart) {
+    const parsed = decodeCursor(cursor)
+    session = await prisma.shuffleSession.findFirst({
+      where: { id: parsed.sessionId, userId }
+    })
+    if (!session) {
+      throw new InvalidCursorError('Shuffle session not found')
+    }
+    // A cursor from before a reshuffle or filter change points into another order
+    position = session.seed === parsed.seed && session.filterKey === key ? parsed.position : session.position
+  } else if (!restart) {
+    session = await findOrResumeSession(userId, deviceId, key)
+    position = session?.position ?? 0
+  }
+
+  let reshuffled = false
+  if (!session || session.filterKey !== key) {
+    session = await startSession(userId, deviceId, scope, weighted)
+    position = 0
+  } else if (position >= session.quoteIds.length) {
+    session = await startSession(userId, deviceId, scope, weighted)
+    position = 0
+    reshuffled = session.quoteIds.length > 0
+  }
+
+  const ids = session.quoteIds.slice(position, position + limit)
+  const nextPosition = position + ids.length
+
+  const [quotes] = await Promise.all([
+    getQuotesByIds(ids, userId),
+    prisma.shuffleSession.update({
+      where: { id: session.id },
+      data: { position: nextPosition }
+    })
+  ])
+
+  // Keep the session's order; quotes deleted since it was built are skipped
+  const quotesById = new Map(quotes.map(q => [q.id, q]))
+
+  return {
+    quotes: ids.flatMap(id => quotesById.get(id) ?? []),
+    cursor: encodeCursor({ sessionId: session.id, seed: session.seed, position: nextPosition }),
+    position: nextPosition,
+    total: session.quoteIds.length,
+    reshuffled
+  }
+}
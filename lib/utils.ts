@@ -38,3 +38,34 @@ export async function fetcher<T = unknown>(url: string): Promise<T> {
   }
   return res.json()
 }
+
+// URL-safe key for a name. Letters and digits from any script survive (so
+// "Любовь" stays "любовь"); a name with none at all, like an emoji, gets a
+// stable hash-based slug instead so it can still be stored and matched.
+export function slugify(value: string): string {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\p{M}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .normalize('NFC')
+  if (slug || !value.trim()) return slug
+
+  // FNV-1a over the trimmed name
+  let hash = 0x811c9dc5
+  for (const char of value.trim()) {
+    hash ^= char.codePointAt(0)!
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `x-${(hash >>> 0).toString(36)}`
+}
+
+// Cut at a word boundary and add an ellipsis when longer than `max` characters
+export function truncateText(value: string, max: number): string {
+  if (value.length <= max) return value
+  const cut = value.slice(0, max - 1)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`
+}
@@ -0,0 +1,202 @@
+import { z } from 'zod'
+import { parseSourceParam } from '@/lib/quote-scope'
+import type { ExportSource } from '@/lib/quote-export'
+import { MAX_COLLECTION_QUOTES } from '@/lib/collections'
+
+// `source` query param: one source or a comma-separated set, e.g. FAVORITES,CUSTOM
+export const sourceParamSchema = z.string().transform((value, ctx) => {
+  const sources = parseSourceParam(value)
+  if (!sources) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Unknown quote source', fatal: true })
+    return z.NEVER
+  }
+  return sources
+})
+
+export const createQuoteSchema = z.object({
+  text: z.string().min(1).max(1000),
+  author: z.string().min(1).max(100),
+  categoryIds: z.array(z.string()).max(10).optional(),
+  source: z.string().optional(),
+})
+
+// All fields optional for partial updates, but at least one must be present
+export const updateQuoteSchema = createQuoteSchema
+  .partial()
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: 'At least one field must be provided',
+  })
+
+// Near-duplicates can be created anyway once the user has seen the match
+export const createQuoteRequestSchema = createQuoteSchema.extend({
+  allowSimilar: z.boolean().default(false),
+})
+
+export type CreateQuoteInput = z.infer<typeof createQuoteSchema>
+export type UpdateQuoteInput = z.infer<typeof updateQuoteSchema>
+
+// Quotes and categories to leave out of a quote scope, from repeated
+// `exclude` and `excludeCategory` query params
+export const scopeExclusionsSchema = z.object({
+  excludeIds: z.array(z.string()).max(100).default([]),
+  excludeCategoryIds: z.array(z.string()).max(20).default([]),
+})
+
+// GET /api/quotes: `count` random quotes, or a page of `limit`
+export const quotesQuerySchema = z.object({
+  random: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  count: z.coerce.number().int().min(1).max(50).default(10),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  ...scopeExclusionsSchema.shape,
+})
+
+export const libraryQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.enum(['newest', 'oldest', 'author']).default('newest'),
+  q: z.string().trim().max(200).optional(),
+})
+
+export const bulkDeleteSchema = z.object({
+  ids: z.array(z.string()).min(1).max(100)
+})
+
+export type LibraryQueryInput = z.infer<typeof libraryQuerySchema>
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  source: sourceParamSchema.optional(),
+  categoryIds: z.array(z.string()).max(20).default([]),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+})
+
+export const categorySchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  description: z.string().trim().max(200).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #f59e0b').optional(),
+})
+
+export const updateCategorySchema = categorySchema.partial()
+
+export const collectionSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z.string().trim().max(300).optional(),
+})
+
+// Null clears the description
+export const updateCollectionSchema = collectionSchema
+  .extend({ description: z.string().trim().max(300).nullable().optional() })
+  .partial()
+
+export const collectionQuoteSchema = z.object({
+  quoteId: z.string(),
+})
+
+export const reorderCollectionSchema = z.object({
+  quoteIds: z.array(z.string()).max(MAX_COLLECTION_QUOTES),
+})
+
+// Share exactly one quote or one collection
+export const shareLinkSchema = z.union([
+  z.object({ quoteId: z.string() }).strict(),
+  z.object({ collectionId: z.string() }).strict(),
+])
+
+const importRowSchema = z.object({
+  text: z.string(),
+  author: z.string(),
+  source: z.string().optional(),
+  categories: z.array(z.string()).max(10).optional(),
+})
+
+export const importRequestSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('preview'),
+    format: z.enum(['csv', 'json']),
+    content: z.string().min(1).max(2_000_000),
+  }),
+  z.object({
+    action: z.literal('commit'),
+    rows: z.array(importRowSchema).min(1).max(500),
+    // Near-duplicates only; exact duplicates are never imported
+    skipDuplicates: z.boolean().default(true),
+  }),
+])
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'json', 'md', 'html']).default('csv'),
+  // Same format as other source params, limited to the user's own quotes
+  source: sourceParamSchema
+    .refine(
+      (sources): sources is ExportSource[] => !sources.includes('PRELOADED'),
+      'Exports take FAVORITES, CUSTOM or both'
+    )
+    .default('FAVORITES,CUSTOM'),
+  categoryIds: z.array(z.string()).max(20).default([]),
+  ...scopeExclusionsSchema.shape,
+})
+
+export const authorsQuerySchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export const historyQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+})
+
+// Theme defaults to the user's; pass it when their preference is SYSTEM
+export const quoteImageQuerySchema = z.object({
+  format: z.enum(['square', 'story', 'banner']).default('square'),
+  theme: z.enum(['light', 'dark']).optional(),
+  download: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+})
+
+export const recordViewSchema = z.object({
+  quoteId: z.string(),
+})
+
+export const nextQuotesQuerySchema = z.object({
+  device: z.string().min(1).max(100).default('default'),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  restart: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+  weighted: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+  source: sourceParamSchema.optional(),
+  author: z.string().optional(),
+  ...scopeExclusionsSchema.shape,
+})
+
+// Shared by signup, password reset and password changes
+export const passwordSchema = z.string().min(6)
+
+export const emailRequestSchema = z.object({
+  email: z.string().email(),
+})
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+})
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().optional(), // Not needed when there's no password yet
+  newPassword: passwordSchema,
+})
+
+export const changeEmailSchema = z.object({
+  email: z.string().email(),
+  currentPassword: z.string().optional(),
+})
+
+export const deleteAccountSchema = z.object({
+  confirmEmail: z.string(),
+  currentPassword: z.string().optional(),
+})
@@ -0,0 +1,97 @@
+/**
+ * Verification tokens
+ *
+ * Single-use, expiring tokens for links we email: verifying an address,
+ * resetting a password and confirming a new address. The link carries 256 random bits; the table keeps only
+ * their SHA-256, keyed by an identifier naming the purpose and user (plus the
+ * email the link was sent to, where that matters). Issuing a new token for the
+ * same identifier drops the old ones, so only the latest email works, and
+ * consuming deletes the row before anything acts on it.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+
+export type TokenPurpose = 'verify-email' | 'reset-password' | 'change-email'
+
+const TOKEN_TTL_MS: Record<TokenPurpose, number> = {
+  'verify-email': 24 * 60 * 60 * 1000,
+  'reset-password': 60 * 60 * 1000,
+  'change-email': 24 * 60 * 60 * 1000
+}
+
+export interface TokenSubject {
+  userId: string
+  email?: string
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function toIdentifier(purpose: TokenPurpose, { userId, email }: TokenSubject): string {
+  return email ? `${purpose}:${userId}:${email}` : `${purpose}:${userId}`
+}
+
+// cuids have no colons, so everything after the second one is the email
+function parseIdentifier(identifier: string): { purpose: string; subject: TokenSubject } {
+  const [purpose, userId, ...email] = identifier.split(':')
+  return { purpose, subject: { userId, email: email.length ? email.join(':') : undefined } }
+}
+
+// Returns the raw token to put in the link
+export async function issueToken(purpose: TokenPurpose, subject: TokenSubject): Promise<string> {
+  const token = randomBytes(32).toString('base64url')
+  const identifier = toIdentifier(purpose, subject)
+
+  await prisma.$transaction([
+    prisma.verificationToken.deleteMany({ where: { identifier } }),
+    prisma.verificationToken.create({
+      data: {
+        identifier,
+        token: hashToken(token),
+        expires: new Date(Date.now() + TOKEN_TTL_MS[purpose])
+      }
+    })
+  ])
+
+  return token
+}
+
+// The subject of a valid token, using it up. Null when the token is unknown,
+// already used, expired or meant for something else.
+export async function consumeToken(purpose: TokenPurpose, token: string): Promise<TokenSubject | null> {
+  const hashed = hashToken(token)
+  const row = await prisma.verificationToken.findUnique({ where: { token: hashed } })
+  if (!row) return null
+
+  const { purpose: rowPurpose, subject } = parseIdentifier(row.identifier)
+  if (rowPurpose !== purpose) return null
+
+  // Whoever deletes the row owns it; a concurrent request gets null
+  const { count } = await prisma.verificationToken.deleteMany({ where: { token: hashed } })
+  if (count === 0 || row.expires < new Date()) return null
+
+  return subject
+}
+
+function userTokensWhere(purposes: TokenPurpose[], userId: string) {
+  return {
+    OR: purposes.flatMap(purpose => [
+      { identifier: `${purpose}:${userId}` },
+      { identifier: { startsWith: `${purpose}:${userId}:` } }
+    ])
+  }
+}
+
+// Drop every outstanding token of one purpose for a user, e.g. other reset
+// links once the password has changed
+export async function revokeTokens(purpose: TokenPurpose, userId: string): Promise<void> {
+  await prisma.verificationToken.deleteMany({ where: userTokensWhere([purpose], userId) })
+}
+
+// Tokens aren't a relation of User, so deleting a user doesn't cascade to them
+export async function revokeAllTokens(userId: string): Promise<void> {
+  const purposes = Object.keys(TOKEN_TTL_MS) as TokenPurpose[]
+  await prisma.verificationToken.deleteMany({ where: userTokensWhere(purposes, userId) })
+}
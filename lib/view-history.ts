@@ -0,0 +1,91 @@
+/**
+ * View history
+ *
+ * Every quote shown to a user is recorded in QuoteView. Rotation puts quotes
+ * seen within the user's window (UserPreferences.viewHistoryDays) last, least
+ * recently seen first, so nothing repeats until the unseen pool runs out and
+ * rotation never comes up empty because of history.
+ *
+ * Views are kept for VIEW_RETENTION_DAYS, the longest window a user can pick,
+ * and older ones are pruned whenever a view is recorded. A quote last seen
+ * before that counts as never seen again.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { visibleQuotesWhere } from '@/lib/quote-scope'
+
+export const DEFAULT_VIEW_HISTORY_DAYS = 7
+export const VIEW_RETENTION_DAYS = 365
+
+// Re-showing the same quote within this many minutes updates the existing view
+const VIEW_DEDUPE_MINUTES = 30
+
+// Views after this instant count as recently seen
+export function viewWindowStart(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+}
+
+export async function getViewHistoryDays(userId: string): Promise<number> {
+  const preferences = await prisma.userPreferences.findUnique({
+    where: { userId },
+    select: { viewHistoryDays: true }
+  })
+  return preferences?.viewHistoryDays ?? DEFAULT_VIEW_HISTORY_DAYS
+}
+
+// Returns false when the quote doesn't exist or isn't visible to the user
+export async function recordView(userId: string, quoteId: string): Promise<boolean> {
+  const quote = await prisma.quote.findFirst({
+    where: { id: quoteId, ...visibleQuotesWhere(userId) },
+    select: { id: true }
+  })
+  if (!quote) return false
+
+  const recent = await prisma.quoteView.findFirst({
+    where: {
+      userId,
+      quoteId,
+      viewedAt: { gt: new Date(Date.now() - VIEW_DEDUPE_MINUTES * 60 * 1000) }
+    },
+    select: { id: true }
+  })
+
+  if (recent) {
+    await prisma.quoteView.update({
+      where: { id: recent.id },
+      data: { viewedAt: new Date() }
+    })
+  } else {
+    await prisma.quoteView.create({ data: { userId, quoteId } })
+    await prisma.quoteView.deleteMany({
+      where: { userId, viewedAt: { lt: viewWindowStart(VIEW_RETENTION_DAYS) } }
+    })
+  }
+  return true
+}
+
+/**
+ * Split quote IDs into ones not seen within the window and recently seen
+ * ones, the latter ordered least recently seen first.
+ */
+export async function partitionBySeen(ids: string[], userId: string, days: number) {
+  if (days <= 0 || ids.length === 0) return { fresh: ids, seen: [] as string[] }
+
+  const views = await prisma.quoteView.groupBy({
+    by: ['quoteId'],
+    where: {
+      userId,
+      quoteId: { in: ids },
+      viewedAt: { gt: viewWindowStart(days) }
+    },
+    _max: { viewedAt: true }
+  })
+  const lastSeen = new Map(views.map(v => [v.quoteId, v._max.viewedAt?.getTime() ?? 0]))
+
+  return {
+    fresh: ids.filter(id => !lastSeen.has(id)),
+    seen: ids
+      .filter(id => lastSeen.has(id))
+      .sort((a, b) => lastSeen.get(a)! - lastSeen.get(b)!)
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Weighted rotation
+ *
+ * Plain shuffles give every quote the same chance. Here each quote gets a
+ * weight: 1, multiplied by the user's boost for each rule it matches
+ * (favorite, newly added custom quote, never shown). Ordering uses
+ * Efraimidis-Spirakis keys (-ln(u) / weight, smallest first), so the first
+ * item is picked with probability weight / total weight and every later
+ * position follows the same rule over what remains.
+ *
+ * Large pools are sampled uniformly by sequence number (sampleBySequence).
+ *
+ * Pure and dependency-free so the client hook, the API routes and the
+ * distribution harness share one implementation.
+ */
+
+export interface RotationWeights {
+  favorite: number
+  newQuote: number
+  unseen: number
+}
+
+export interface RotationFlags {
+  isFavorite: boolean
+  isNew: boolean
+  isUnseen: boolean
+}
+
+export const DEFAULT_ROTATION_WEIGHTS: RotationWeights = {
+  favorite: 3,
+  newQuote: 2,
+  unseen: 2,
+}
+
+// Custom quotes count as new for this many days after they're added
+export const NEW_QUOTE_DAYS = 14
+
+export const MAX_ROTATION_WEIGHT = 10
+
+export function rotationWeight(flags: RotationFlags, weights: RotationWeights): number {
+  let weight = 1
+  if (flags.isFavorite) weight *= weights.favorite
+  if (flags.isNew) weight *= weights.newQuote
+  if (flags.isUnseen) weight *= weights.unseen
+  return weight
+}
+
+// mulberry32: small seeded PRNG returning floats in [0, 1)
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Order items so each position is drawn with probability proportional to its
+ * weight among the items not yet placed. Items with a missing or non-positive
+ * weight count as weight 1.
+ */
+export function weightedShuffle<T>(
+  items: T[],
+  weightOf: (item: T) => number | undefined,
+  random: () => number = Math.random
+): T[] {
+  return items
+    .map(item => {
+      const weight = weightOf(item)
+      // 1 - random() is in (0, 1], so the log is always finite
+      const key = -Math.log(1 - random()) / (weight && weight > 0 ? weight : 1)
+      return { item, key }
+    })
+    .sort((a, b) => a.key - b.key)
+    .map(({ item }) => item)
+}
+
+/**
+ * Plan `count` weighted draws over `items` plus `poolSize` interchangeable
+ * items that all weigh `poolWeight`, without listing the pool. Each draw
+ * follows the same rule as weightedShuffle (probability proportional to
+ * weight among what's left), so the result is distributed exactly like the
+ * first `count` positions of a weighted shuffle over everything. Pool draws
+ * come back as null; the caller fills them with a uniform sample of the pool.
+ */
+export function planWeightedDraws<T>(
+  items: T[],
+  weightOf: (item: T) => number | undefined,
+  poolSize: number,
+  poolWeight: number,
+  count: number,
+  random: () => number = Math.random
+): (T | null)[] {
+  const remaining = items.map(item => {
+    const weight = weightOf(item)
+    return { item, weight: weight && weight > 0 ? weight : 1 }
+  })
+  let itemsWeight = remaining.reduce((sum, entry) => sum + entry.weight, 0)
+  let poolLeft = poolSize
+  const weightOfPool = poolWeight > 0 ? poolWeight : 1
+  const draws: (T | null)[] = []
+
+  while (draws.length < count && (remaining.length > 0 || poolLeft > 0)) {
+    let target = random() * (itemsWeight + poolLeft * weightOfPool)
+
+    if (poolLeft > 0 && (remaining.length === 0 || target >= itemsWeight)) {
+      draws.push(null)
+      poolLeft--
+      continue
+    }
+
+    // Walk the items; floating point can leave target just past the end
+    let index = 0
+    while (index < remaining.length - 1 && target >= remaining[index].weight) {
+      target -= remaining[index].weight
+      index++
+    }
+    const [picked] = remaining.splice(index, 1)
+    itemsWeight -= picked.weight
+    draws.push(picked.item)
+  }
+  return draws
+}
+
+export interface SequenceSampleOptions {
+  maxProbes?: number
+  random?: () => number
+}
+
+/**
+ * Uniform sample of `size` distinct pool members, where each member carries a
+ * sequence number in 1..maxSeq and some numbers belong to no member (deleted
+ * rows, rows outside the pool). Probes are uniform sequence numbers, never the
+ * same one twice; `lookup` returns the member id at each probe that has one,
+ * in probe order, and misses are simply drawn again. So every member not yet
+ * picked is equally likely at every draw, however the numbers are spread.
+ * `hitRate` (about pool size / maxSeq) sizes each batch of probes. Stops
+ * short of `size` once maxProbes are spent; the caller finishes the sample
+ * from what's left.
+ */
+export async function sampleBySequence(
+  size: number,
+  maxSeq: number,
+  hitRate: number,
+  lookup: (seqs: number[]) => Promise<string[]>,
+  { maxProbes = 20_000, random = Math.random }: SequenceSampleOptions = {}
+): Promise<string[]> {
+  const picked = new Set<string>()
+  const probed = new Set<number>()
+  const budget = Math.min(maxProbes, maxSeq)
+
+  while (picked.size < size && probed.size < budget) {
+    const wanted = Math.ceil(((size - picked.size) / Math.max(hitRate, 0.001)) * 1.25) + 8
+    const seqs: number[] = []
+    while (seqs.length < wanted && probed.size < budget) {
+      const seq = 1 + Math.floor(random() * maxSeq)
+      if (probed.has(seq)) continue
+      probed.add(seq)
+      seqs.push(seq)
+    }
+
+    for (const id of await lookup(seqs)) {
+      if (picked.size === size) break
+      picked.add(id)
+    }
+  }
+  return [...picked]
+}
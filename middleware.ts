@@ -0,0 +1,19 @@
+import NextAuth from 'next-auth'
+import { authConfig } from '@/lib/auth.config'
+
+// Redirects signed-out visitors away from protected pages (see
+// lib/auth.config.ts). API routes check the session themselves via withAuth,
+// so they can answer with a 401 instead of a redirect.
+export default NextAuth(authConfig).auth
+
+// Must be literal for Next to read it; mirrors PROTECTED_PAGES
+export const config = {
+  matcher: [
+    '/quotes/:path*',
+    '/settings/:path*',
+    '/library/:path*',
+    '/collections/:path*',
+    '/history/:path*',
+    '/authors/:path*',
+  ],
+}
@@ -0,0 +1,149 @@
+/**
+ * Assign built-in categories to the quote corpus with the offline classifier
+ * in lib/classifier.ts and write a review report of low-confidence results.
+ *
+ * Usage:
+ *   npm run classify                       # preloaded quotes
+ *   npm run classify -- --include-custom   # also users' custom quotes
+ *   npm run classify -- --dry-run          # report only, no writes
+ *   npm run classify -- --report out.csv   # report path (default: classification-review.csv)
+ *
+ * Only classifier-made links (confidence set) are replaced; quotes that
+ * already carry a manual category are left alone. Safe to re-run.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import * as fs from 'fs'
+import * as path from 'path'
+import Papa from 'papaparse'
+import { classifyQuote } from '../lib/classifier'
+import { DEFAULT_CATEGORIES } from '../lib/category-defaults'
+
+const prisma = new PrismaClient()
+
+interface ReviewRow {
+  QuoteId: string
+  Author: string
+  Quote: string
+  Assigned: string
+  Confidence: string
+  Candidates: string
+}
+
+function parseArgs(argv: string[]) {
+  const reportIndex = argv.indexOf('--report')
+  return {
+    dryRun: argv.includes('--dry-run'),
+    includeCustom: argv.includes('--include-custom'),
+    reportPath: path.resolve(reportIndex >= 0 && argv[reportIndex + 1] ? argv[reportIndex + 1] : 'classification-review.csv'),
+  }
+}
+
+async function main() {
+  const { dryRun, includeCustom, reportPath } = parseArgs(process.argv.slice(2))
+  console.log(`🏷️  Classifying quotes${dryRun ? ' (dry run)' : ''}...`)
+
+  // Make sure every category the classifier can emit exists as a built-in
+  for (const category of DEFAULT_CATEGORIES) {
+    const existing = await prisma.category.findFirst({
+      where: { slug: category.slug, userId: null }
+    })
+    if (!existing && !dryRun) {
+      await prisma.category.create({ data: { ...category } })
+    }
+  }
+
+  const builtIns = await prisma.category.findMany({
+    where: { userId: null },
+    select: { id: true, slug: true }
+  })
+  const idsBySlug = new Map(builtIns.map(c => [c.slug, c.id]))
+
+  const quotes = await prisma.quote.findMany({
+    where: includeCustom ? {} : { isPreloaded: true },
+    select: {
+      id: true,
+      text: true,
+      author: true,
+      categories: { select: { confidence: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  console.log(`📚 Found ${quotes.length} quotes to classify`)
+
+  const review: ReviewRow[] = []
+  const totals = new Map<string, number>()
+  let skippedManual = 0
+  let assignedCount = 0
+
+  const batchSize = 100
+
+  for (let i = 0; i < quotes.length; i += batchSize) {
+    const batch = quotes.slice(i, i + batchSize)
+    const links: Array<{ quoteId: string; categoryId: string; confidence: number }> = []
+    const classifiedIds: string[] = []
+
+    for (const quote of batch) {
+      if (quote.categories.some(link => link.confidence === null)) {
+        skippedManual++
+        continue
+      }
+
+      const { categories, lowConfidence } = classifyQuote(quote.text, quote.author)
+      classifiedIds.push(quote.id)
+
+      for (const { slug, confidence } of categories) {
+        const categoryId = idsBySlug.get(slug)
+        if (!categoryId) continue
+        links.push({ quoteId: quote.id, categoryId, confidence })
+        totals.set(slug, (totals.get(slug) ?? 0) + 1)
+      }
+      if (categories.length > 0) assignedCount++
+
+      if (lowConfidence) {
+        const [best] = categories
+        review.push({
+          QuoteId: quote.id,
+          Author: quote.author,
+          Quote: quote.text,
+          Assigned: best?.slug ?? '',
+          Confidence: best ? best.confidence.toFixed(3) : '0',
+          Candidates: categories.map(c => `${c.slug}:${c.confidence.toFixed(3)}`).join(' '),
+        })
+      }
+    }
+
+    if (!dryRun && classifiedIds.length > 0) {
+      await prisma.$transaction([
+        prisma.quoteCategory.deleteMany({
+          where: { quoteId: { in: classifiedIds }, confidence: { not: null } }
+        }),
+        prisma.quoteCategory.createMany({ data: links })
+      ])
+    }
+
+    console.log(`✅ Classified ${Math.min(i + batchSize, quotes.length)}/${quotes.length} quotes`)
+  }
+
+  // Lowest confidence first so reviewers start with the worst guesses
+  review.sort((a, b) => Number(a.Confidence) - Number(b.Confidence) || a.QuoteId.localeCompare(b.QuoteId))
+  fs.writeFileSync(reportPath, Papa.unparse(review, { quotes: true }))
+
+  console.log('📊 Assignments per category:')
+  for (const [slug, count] of Array.from(totals.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`   ${slug.padEnd(12)} ${count}`)
+  }
+  console.log(`✅ ${assignedCount} quotes categorized, ${skippedManual} skipped (manual categories)`)
+  console.log(`📝 ${review.length} low-confidence results written to ${reportPath}`)
+  console.log('🎉 Classification complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Classification failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,156 @@
+/**
+ * Report exact and near-duplicate quotes in the seeded corpus, and backfill
+ * Quote.textHash for rows created before duplicate detection existed (or
+ * hashed under an older normalization).
+ *
+ * Usage:
+ *   npm run duplicates                          # preloaded quotes in the database
+ *   npm run duplicates -- --file quotes.csv     # check a CSV before seeding (no database)
+ *   npm run duplicates -- --backfill            # also fill in missing or outdated textHash values
+ *   npm run duplicates -- --threshold 0.9       # near-duplicate cutoff (default: 0.85)
+ *   npm run duplicates -- --report out.csv      # report path (default: duplicates-report.csv)
+ *
+ * Each quote is compared with the ones before it, so every duplicate pair is
+ * reported once against its earliest occurrence.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import * as fs from 'fs'
+import * as path from 'path'
+import Papa from 'papaparse'
+import { DuplicateIndex, hashQuoteText, NEAR_DUPLICATE_THRESHOLD } from '../lib/duplicates'
+
+const prisma = new PrismaClient()
+
+interface CorpusQuote {
+  id: string
+  text: string
+  author: string
+}
+
+interface ReportRow {
+  QuoteId: string
+  Author: string
+  Quote: string
+  DuplicateOfId: string
+  DuplicateOfAuthor: string
+  DuplicateOf: string
+  Similarity: string
+  Exact: string
+}
+
+function parseArgs(argv: string[]) {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag)
+    return index >= 0 ? argv[index + 1] : undefined
+  }
+  return {
+    file: valueOf('--file'),
+    backfill: argv.includes('--backfill'),
+    threshold: Number(valueOf('--threshold') ?? NEAR_DUPLICATE_THRESHOLD),
+    reportPath: path.resolve(valueOf('--report') ?? 'duplicates-report.csv'),
+  }
+}
+
+function readCsvCorpus(file: string): CorpusQuote[] {
+  const content = fs.readFileSync(path.resolve(file), 'utf-8')
+  const { data } = Papa.parse<{ Author: string; Quote: string }>(content, {
+    header: true,
+    skipEmptyLines: true,
+  })
+  // Line numbers stand in for IDs (header is line 1)
+  return data
+    .filter(row => row.Quote && row.Author)
+    .map((row, i) => ({ id: `line-${i + 2}`, text: row.Quote.trim(), author: row.Author.trim() }))
+}
+
+// Recomputes every hash rather than only the missing ones, so rows hashed
+// under an older normalization (which folded non-Latin text to "") are fixed
+async function backfillHashes() {
+  const pageSize = 1000
+  let cursor: string | undefined
+  let checked = 0
+  let updated = 0
+
+  for (;;) {
+    const page = await prisma.quote.findMany({
+      select: { id: true, text: true, textHash: true },
+      orderBy: { id: 'asc' },
+      take: pageSize,
+      ...(cursor && { skip: 1, cursor: { id: cursor } })
+    })
+    if (page.length === 0) break
+
+    const stale = page
+      .map(quote => ({ id: quote.id, current: quote.textHash, textHash: hashQuoteText(quote.text) }))
+      .filter(quote => quote.current !== quote.textHash)
+    if (stale.length > 0) {
+      await prisma.$transaction(
+        stale.map(quote => prisma.quote.update({
+          where: { id: quote.id },
+          data: { textHash: quote.textHash }
+        }))
+      )
+    }
+
+    checked += page.length
+    updated += stale.length
+    cursor = page[page.length - 1].id
+  }
+
+  console.log(`🔑 Backfilled textHash for ${updated} of ${checked} quotes`)
+}
+
+async function main() {
+  const { file, backfill, threshold, reportPath } = parseArgs(process.argv.slice(2))
+  console.log(`🔍 Checking ${file ?? 'preloaded quotes'} for duplicates (threshold ${threshold})...`)
+
+  if (backfill && !file) {
+    await backfillHashes()
+  }
+
+  const corpus: CorpusQuote[] = file
+    ? readCsvCorpus(file)
+    : await prisma.quote.findMany({
+        where: { isPreloaded: true },
+        select: { id: true, text: true, author: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+      })
+
+  console.log(`📚 Found ${corpus.length} quotes`)
+
+  const index = new DuplicateIndex<CorpusQuote>()
+  const report: ReportRow[] = []
+
+  for (const quote of corpus) {
+    const match = index.findMatch(quote.text, threshold)
+    if (match) {
+      report.push({
+        QuoteId: quote.id,
+        Author: quote.author,
+        Quote: quote.text,
+        DuplicateOfId: match.quote.id,
+        DuplicateOfAuthor: match.quote.author,
+        DuplicateOf: match.quote.text,
+        Similarity: match.similarity.toFixed(3),
+        Exact: match.exact ? 'yes' : 'no',
+      })
+    }
+    index.add(quote)
+  }
+
+  fs.writeFileSync(reportPath, Papa.unparse(report, { quotes: true }))
+
+  const exactCount = report.filter(row => row.Exact === 'yes').length
+  console.log(`✅ ${exactCount} exact and ${report.length - exactCount} near-duplicates`)
+  console.log(`📝 Report written to ${reportPath}`)
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Duplicate check failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,140 @@
+/**
+ * One-off migration from the free-form Quote.category string to the
+ * Category taxonomy.
+ *
+ * `prisma db push` creates the new tables and drops the old column in one
+ * step, so the migration runs in two passes:
+ *   1. npm run categories:migrate   # copies legacy values to a backup table
+ *   2. npm run prisma:push -- --accept-data-loss
+ *   3. npm run categories:migrate   # links quotes and drops the backup
+ *
+ * Each distinct string becomes a category: preloaded quotes map to built-in
+ * categories, custom quotes to categories owned by the quote's author. Strings
+ * whose slug matches a built-in category reuse it. Safe to re-run.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { DEFAULT_CATEGORIES } from '../lib/category-defaults'
+import { slugify } from '../lib/utils'
+
+const prisma = new PrismaClient()
+
+const BACKUP_TABLE = '_LegacyQuoteCategory'
+
+interface LegacyQuoteRow {
+  id: string
+  userId: string | null
+  isPreloaded: boolean
+  category: string
+}
+
+async function tableExists(table: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT to_regclass(${`"${table}"`}) IS NOT NULL AS exists
+  `
+  return rows[0]?.exists ?? false
+}
+
+async function main() {
+  console.log('🏷️  Migrating legacy quote categories...')
+  
+  const columns = await prisma.$queryRaw<Array<{ column_name: string }>>`
+    SELECT column_name FROM information_schema.columns
+    WHERE table_name = 'Quote' AND column_name = 'category'
+  `
+  const hasLegacyColumn = columns.length > 0
+  const hasBackup = await tableExists(BACKUP_TABLE)
+  
+  // Pass 1: the new tables don't exist yet, so stash the values first
+  if (!(await tableExists('Category'))) {
+    if (!hasLegacyColumn) {
+      console.log('✅ No legacy "category" column found, nothing to migrate')
+      return
+    }
+    await prisma.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS "${BACKUP_TABLE}" AS
+      SELECT id, "userId", "isPreloaded", category FROM "Quote"
+      WHERE category IS NOT NULL AND trim(category) <> ''
+    `)
+    console.log(`✅ Backed up legacy categories to "${BACKUP_TABLE}"`)
+    console.log('👉 Now run `npm run prisma:push -- --accept-data-loss`, then run this script again.')
+    return
+  }
+  
+  if (!hasLegacyColumn && !hasBackup) {
+    console.log('✅ No legacy categories found, nothing to migrate')
+    return
+  }
+  
+  // Make sure built-ins exist so matching strings can reuse them
+  for (const category of DEFAULT_CATEGORIES) {
+    const existing = await prisma.category.findFirst({
+      where: { slug: category.slug, userId: null }
+    })
+    if (!existing) {
+      await prisma.category.create({ data: { ...category } })
+    }
+  }
+  
+  const rows = await prisma.$queryRawUnsafe<LegacyQuoteRow[]>(`
+    SELECT l.id, l."userId", l."isPreloaded", l.category
+    FROM ${hasBackup ? `"${BACKUP_TABLE}"` : '"Quote"'} l
+    JOIN "Quote" q ON q.id = l.id
+    WHERE l.category IS NOT NULL AND trim(l.category) <> ''
+  `)
+  
+  console.log(`📚 Found ${rows.length} quotes with a legacy category`)
+  
+  const categoryIds = new Map<string, string>()
+  let linked = 0
+  
+  for (const row of rows) {
+    const name = row.category.trim()
+    const slug = slugify(name)
+    if (!slug) continue
+    
+    const ownerId = row.isPreloaded ? null : row.userId
+    const key = `${ownerId ?? ''}:${slug}`
+    let categoryId = categoryIds.get(key)
+    
+    if (!categoryId) {
+      const existing = await prisma.category.findFirst({
+        where: {
+          slug,
+          OR: [{ userId: null }, ...(ownerId ? [{ userId: ownerId }] : [])]
+        }
+      })
+      const category = existing ?? await prisma.category.create({
+        data: { slug, name, userId: ownerId }
+      })
+      categoryId = category.id
+      categoryIds.set(key, categoryId)
+    }
+    
+    await prisma.quoteCategory.upsert({
+      where: { quoteId_categoryId: { quoteId: row.id, categoryId } },
+      update: {},
+      create: { quoteId: row.id, categoryId }
+    })
+    linked++
+  }
+  
+  console.log(`✅ Linked ${linked} quotes to ${categoryIds.size} categories`)
+  
+  if (hasBackup) {
+    await prisma.$executeRawUnsafe(`DROP TABLE "${BACKUP_TABLE}"`)
+    console.log(`✅ Dropped "${BACKUP_TABLE}"`)
+  } else {
+    console.log('👉 Run `npm run prisma:push -- --accept-data-loss` to drop the old column.')
+  }
+  console.log('🎉 Category migration complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Category migration failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
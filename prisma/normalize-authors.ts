@@ -0,0 +1,93 @@
+/**
+ * Build Author records from the Quote.author strings of the preloaded corpus
+ * and link quotes to them.
+ *
+ * Usage:
+ *   npm run authors:normalize              # create/update authors and link quotes
+ *   npm run authors:normalize -- --dry-run # print the merges without writing
+ *
+ * Spellings are grouped by lib/author-names.ts; curated lifespans, bios and
+ * aliases come from lib/author-profiles.ts. Preloaded quotes are renamed to
+ * the canonical spelling; custom quotes keep the user's spelling and are only
+ * linked. Safe to re-run after seeding or editing profiles.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { authorKey, groupAuthorNames } from '../lib/author-names'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  console.log(`👤 Normalizing authors${dryRun ? ' (dry run)' : ''}...`)
+
+  const preloaded = await prisma.quote.groupBy({
+    by: ['author'],
+    where: { isPreloaded: true },
+    _count: { _all: true }
+  })
+  const counts = new Map(preloaded.map(row => [row.author.trim(), row._count._all]))
+  const groups = groupAuthorNames(counts)
+
+  const merged = groups.filter(group => group.aliases.some(alias => counts.has(alias)))
+  console.log(`📚 ${counts.size} author spellings → ${groups.length} authors (${merged.length} merged)`)
+  for (const group of merged) {
+    const variants = group.aliases.filter(alias => counts.has(alias))
+    console.log(`   ${group.name} ← ${variants.join(', ')}`)
+  }
+
+  if (dryRun) return
+
+  const idsByKey = new Map<string, string>()
+
+  for (const group of groups) {
+    const data = {
+      name: group.name,
+      aliases: group.aliases,
+      nameKeys: group.nameKeys,
+      birthYear: group.profile?.birthYear ?? null,
+      deathYear: group.profile?.deathYear ?? null,
+      bio: group.profile?.bio ?? null,
+    }
+    const author = await prisma.author.upsert({
+      where: { slug: group.slug },
+      create: { slug: group.slug, ...data },
+      update: data,
+      select: { id: true }
+    })
+    group.nameKeys.forEach(key => idsByKey.set(key, author.id))
+  }
+
+  console.log(`✅ Saved ${groups.length} authors`)
+
+  // Link every quote whose spelling maps to an author, one spelling at a time
+  const spellings = await prisma.quote.groupBy({
+    by: ['author', 'isPreloaded']
+  })
+  const canonicalNameById = new Map(groups.map(group => [idsByKey.get(group.nameKeys[0]), group.name]))
+  let linked = 0
+
+  for (const { author, isPreloaded } of spellings) {
+    const authorId = idsByKey.get(authorKey(author)) ?? null
+    const { count } = await prisma.quote.updateMany({
+      where: { author, isPreloaded },
+      data: {
+        authorId,
+        ...(isPreloaded && authorId && { author: canonicalNameById.get(authorId) })
+      }
+    })
+    if (authorId) linked += count
+  }
+
+  console.log(`🔗 Linked ${linked} quotes to authors`)
+  console.log('🎉 Author normalization complete!')
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Author normalization failed:', e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
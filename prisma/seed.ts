@@ -3,6 +3,8 @@ import * as fs from 'fs'
 import * as path from 'path'
 import Papa from 'papaparse'
 import bcrypt from 'bcryptjs'
+import { DEFAULT_CATEGORIES } from '../lib/category-defaults'
+import { hashQuoteText } from '../lib/duplicates'
 
 const prisma = new PrismaClient()
 
@@ -16,7 +18,10 @@ async function main() {
   
   // Clear existing data
   await prisma.favorite.deleteMany()
+  await prisma.quoteCategory.deleteMany()
   await prisma.quote.deleteMany()
+  await prisma.author.deleteMany()
+  await prisma.category.deleteMany()
   await prisma.userPreferences.deleteMany()
   await prisma.session.deleteMany()
   await prisma.account.deleteMany()
@@ -24,11 +29,19 @@ async function main() {
   
   console.log('✅ Cleared existing data')
   
+  // Create built-in categories
+  await prisma.category.createMany({
+    data: DEFAULT_CATEGORIES.map(category => ({ ...category }))
+  })
+  
+  console.log(`✅ Created ${DEFAULT_CATEGORIES.length} built-in categories`)
+  
   // Create a demo user
   const hashedPassword = await bcrypt.hash('demo123', 10)
   const demoUser = await prisma.user.create({
     data: {
       email: 'demo@example.com',
+      emailVerified: new Date(),
       password: hashedPassword,
       name: 'Demo User',
       preferences: {
@@ -78,6 +91,7 @@ async function main() {
       data: batch.map(row => ({
         text: row.Quote.trim(),
         author: row.Author.trim(),
+        textHash: hashQuoteText(row.Quote),
         isPreloaded: true,
       }))
     })
@@ -107,7 +121,7 @@ async function main() {
         userId: demoUser.id,
         isPreloaded: false,
       }
-    ]
+    ].map(quote => ({ ...quote, textHash: hashQuoteText(quote.text) }))
   })
   
   console.log('✅ Added custom quotes for demo user')
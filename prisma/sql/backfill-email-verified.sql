@@ -0,0 +1,13 @@
+-- Mark users who signed up before email verification existed as verified
+--
+-- Run once after the `prisma db push` that adds "User"."emailVerified", with:
+--   npm run prisma:verify-existing
+--
+-- Password sign-in requires a verified email, so without this every existing
+-- account would be asked to verify on its next login. It only touches rows
+-- where the column is still NULL, so re-running it is harmless but would also
+-- verify anyone who signed up since; run it once, right after the push.
+
+UPDATE "User"
+SET "emailVerified" = "createdAt"
+WHERE "emailVerified" IS NULL;
@@ -0,0 +1,29 @@
+-- Full-text search support for "Quote"
+--
+-- Run after `prisma db push` (or `npm run prisma:push`) with:
+--   npm run prisma:search
+--
+-- The "searchVector" column and its GIN index are declared in schema.prisma.
+-- Prisma cannot express triggers, so this script keeps the column in sync
+-- with "text" and "author" and backfills existing rows. It is idempotent.
+
+CREATE OR REPLACE FUNCTION quote_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW.text, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.author, '')), 'B');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS quote_search_vector_trigger ON "Quote";
+
+CREATE TRIGGER quote_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF text, author ON "Quote"
+  FOR EACH ROW EXECUTE FUNCTION quote_search_vector_update();
+
+UPDATE "Quote"
+SET "searchVector" =
+  setweight(to_tsvector('english', coalesce(text, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(author, '')), 'B')
+WHERE "searchVector" IS NULL;
@@ -0,0 +1,186 @@
+/**
+ * Benchmark for random quote sampling. Seeds a local Postgres with a large
+ * number of preloaded quotes plus a user with favorites and view history, then
+ * times the whole GET /api/quotes?random=true path on the same scope, from
+ * sizing the scope to loading the picked quotes, with each sampler:
+ * - sort: a full count, then a weighted ORDER BY over the whole scope (the old path)
+ * - index: sampleQuoteIds, i.e. a cached scope size, exceptions and uniform
+ *   Quote.seq probes for the pool (used above EXACT_SAMPLE_LIMIT)
+ *
+ * The pool sample's uniformity is checked without a database by
+ * `npm run rotation:check`.
+ *
+ * The first request of each is reported separately: for index it's the one
+ * that counts the scope in full and fills the size cache.
+ *
+ * Usage:
+ *   npm run benchmark:sampling                     # 1M quotes, 20 runs each
+ *   npm run benchmark:sampling -- --quotes 200000 --runs 50 --count 10
+ *   npm run benchmark:sampling -- --keep           # leave the seeded rows for another run
+ *
+ * Needs DATABASE_URL pointing at a local database with the current schema
+ * (`npm run prisma:push`). Refuses to run against a remote host unless
+ * --force is passed. Seeded rows are removed afterwards unless --keep is set.
+ */
+
+import { prisma } from '../lib/prisma'
+import { getAuthorSlugsForQuotes } from '../lib/authors'
+import { getCategoriesForQuotes } from '../lib/categories'
+import { EXACT_SAMPLE_LIMIT, sampleQuoteIds, sortSampleQuoteIds } from '../lib/quote-sampler'
+import { DEFAULT_QUOTE_SOURCES, quoteScopeWhere, type QuoteScope } from '../lib/quote-scope'
+
+const ID_PREFIX = 'bench-'
+const BENCHMARK_EMAIL = 'sampling-benchmark@inspiro.local'
+const SEED_CHUNK = 100_000
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function isLocalDatabase(url: string | undefined): boolean {
+  if (!url) return false
+  try {
+    return ['localhost', '127.0.0.1', '::1', '[::1]'].includes(new URL(url).hostname)
+  } catch {
+    return false
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+}
+
+async function seedQuotes(total: number) {
+  const existing = await prisma.quote.count({ where: { id: { startsWith: ID_PREFIX } } })
+  if (existing >= total) {
+    console.log(`♻️  Reusing ${existing.toLocaleString()} seeded quotes`)
+    return
+  }
+
+  console.log(`🌱 Seeding ${(total - existing).toLocaleString()} quotes...`)
+  for (let from = existing + 1; from <= total; from += SEED_CHUNK) {
+    const to = Math.min(total, from + SEED_CHUNK - 1)
+    await prisma.$executeRaw`
+      INSERT INTO "Quote" (id, text, author, "isPreloaded", "createdAt", "updatedAt")
+      SELECT ${ID_PREFIX}::text || g, 'Benchmark quote number ' || g, 'Benchmark Author ' || (g % 5000), true, now(), now()
+      FROM generate_series(${from}::int, ${to}::int) g
+    `
+    console.log(`   ${to.toLocaleString()} / ${total.toLocaleString()}`)
+  }
+  await prisma.$executeRaw`ANALYZE "Quote"`
+}
+
+// A user with some history, so the exception queries have real work to do
+async function seedUser(total: number): Promise<string> {
+  const user = await prisma.user.upsert({
+    where: { email: BENCHMARK_EMAIL },
+    update: {},
+    // Not a bcrypt hash, so nobody can sign in as this user
+    create: { email: BENCHMARK_EMAIL, name: 'Sampling Benchmark', password: '!' }
+  })
+
+  await prisma.favorite.deleteMany({ where: { userId: user.id } })
+  await prisma.quoteView.deleteMany({ where: { userId: user.id } })
+
+  const step = Math.max(1, Math.floor(total / 2000))
+  await prisma.favorite.createMany({
+    data: Array.from({ length: 200 }, (_, i) => ({ userId: user.id, quoteId: `${ID_PREFIX}${(i * step * 10) % total + 1}` })),
+    skipDuplicates: true
+  })
+  await prisma.quoteView.createMany({
+    data: Array.from({ length: 2000 }, (_, i) => ({
+      userId: user.id,
+      quoteId: `${ID_PREFIX}${(i * step) % total + 1}`,
+      viewedAt: new Date(Date.now() - i * 60 * 60 * 1000)
+    }))
+  })
+  return user.id
+}
+
+// What the route loads for the picked quotes, the same for both samplers
+async function loadQuotes(userId: string, ids: string[]) {
+  await Promise.all([
+    prisma.quote.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, text: true, author: true, source: true, isPreloaded: true, createdAt: true, updatedAt: true }
+    }),
+    prisma.favorite.findMany({ where: { userId, quoteId: { in: ids } }, select: { quoteId: true } }),
+    getCategoriesForQuotes(ids),
+    getAuthorSlugsForQuotes(ids)
+  ])
+}
+
+async function time(label: string, runs: number, request: () => Promise<void>) {
+  const firstStarted = performance.now()
+  await request()
+  const first = performance.now() - firstStarted
+
+  const durations: number[] = []
+  for (let run = 0; run < runs; run++) {
+    const started = performance.now()
+    await request()
+    durations.push(performance.now() - started)
+  }
+  durations.sort((a, b) => a - b)
+  const median = percentile(durations, 0.5)
+  console.log(
+    `   ${label.padEnd(6)} first ${first.toFixed(1).padStart(8)} ms` +
+    `  median ${median.toFixed(1).padStart(8)} ms` +
+    `  p95 ${percentile(durations, 0.95).toFixed(1).padStart(8)} ms`
+  )
+  return median
+}
+
+async function cleanup(userId: string | null) {
+  console.log('🧹 Removing seeded rows...')
+  if (userId) {
+    await prisma.user.delete({ where: { id: userId } })
+  }
+  await prisma.$executeRaw`DELETE FROM "Quote" WHERE id LIKE ${ID_PREFIX + '%'}`
+}
+
+async function main() {
+  const quotes = parseInt(argValue('--quotes') ?? '1000000')
+  const runs = parseInt(argValue('--runs') ?? '20')
+  const count = parseInt(argValue('--count') ?? '10')
+  const keep = process.argv.includes('--keep')
+
+  if (!isLocalDatabase(process.env.DATABASE_URL) && !process.argv.includes('--force')) {
+    console.error('❌ DATABASE_URL is not a local database; pass --force to run anyway')
+    process.exit(1)
+  }
+
+  console.log(`⏱️  Random sampling benchmark (${quotes.toLocaleString()} quotes, ${runs} runs, ${count} per request)`)
+
+  let userId: string | null = null
+  try {
+    await seedQuotes(quotes)
+    userId = await seedUser(quotes)
+
+    const scope: QuoteScope = { userId, sources: DEFAULT_QUOTE_SOURCES }
+    const total = await prisma.quote.count({ where: quoteScopeWhere(scope) })
+    console.log(`\n📊 Scope holds ${total.toLocaleString()} quotes`)
+    if (total <= EXACT_SAMPLE_LIMIT) {
+      console.log(`⚠️  That's within EXACT_SAMPLE_LIMIT (${EXACT_SAMPLE_LIMIT}), so both paths sort`)
+    }
+
+    const sorted = await time('sort', runs, async () => {
+      await prisma.quote.count({ where: quoteScopeWhere(scope) })
+      await loadQuotes(scope.userId, await sortSampleQuoteIds(scope, count))
+    })
+    const indexed = await time('index', runs, async () => {
+      const { ids } = await sampleQuoteIds(scope, count)
+      await loadQuotes(scope.userId, ids)
+    })
+    console.log(`\n✅ Index sampling is ${(sorted / indexed).toFixed(1)}× faster at the median`)
+  } finally {
+    if (!keep) await cleanup(userId)
+    await prisma.$disconnect()
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Benchmark failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,67 @@
+/**
+ * Harness for quote text normalization and duplicate matching. Checks that
+ * punctuation, case and accent variants still match exactly, and that quotes
+ * in non-Latin scripts keep their letters instead of all folding to the same
+ * (empty) text and hash. Also checks which matches block saving a quote.
+ *
+ * Usage:
+ *   npm run duplicates:check
+ *
+ * No database needed. Exits non-zero when any check fails.
+ */
+
+import { DuplicateIndex, hashQuoteText, isBlockingDuplicate, normalizeQuoteText } from '../lib/duplicates'
+import { check, finish, scenario } from './harness'
+
+async function main() {
+  console.log('🔁 Duplicate detection check')
+
+  await scenario('Latin text', () => {
+    check(
+      'Case, punctuation and spacing fold away',
+      hashQuoteText('Genius is 1% inspiration, 99% perspiration.') === hashQuoteText('genius is 1 inspiration 99  perspiration')
+    )
+    check('Accents fold away', normalizeQuoteText('Café naïve') === 'cafe naive', normalizeQuoteText('Café naïve'))
+  })
+
+  await scenario('Non-Latin text', () => {
+    const samples = ['Знание — сила', '七転び八起き', 'العلم نور', 'ज्ञान ही शक्ति है', '지식은 힘이다']
+    for (const sample of samples) {
+      const normalized = normalizeQuoteText(sample)
+      check(`"${sample}" keeps its letters`, normalized.length > 0, JSON.stringify(normalized))
+    }
+
+    const hashes = new Set(samples.map(hashQuoteText))
+    check('Different scripts hash differently', hashes.size === samples.length, String(hashes.size))
+    check('Cyrillic punctuation variants match', hashQuoteText('Знание — сила!') === hashQuoteText('знание сила'))
+    check('Dakuten are kept (ば is not は)', normalizeQuoteText('ば') !== normalizeQuoteText('は'))
+  })
+
+  await scenario('Symbol-only text', () => {
+    check('Different emoji quotes hash differently', hashQuoteText('🌱 🌳') !== hashQuoteText('🔥'))
+    check('Spacing still folds for emoji quotes', hashQuoteText(' 🌱  🌳 ') === hashQuoteText('🌱 🌳'))
+  })
+
+  await scenario('DuplicateIndex', () => {
+    const index = new DuplicateIndex([
+      { id: '1', text: 'Знание — сила', author: 'Francis Bacon' },
+      { id: '2', text: 'Тише едешь — дальше будешь, а поспешишь — людей насмешишь', author: 'Proverb' }
+    ])
+    check('A second non-Latin quote is not a duplicate', index.findMatch('Терпение и труд всё перетрут') === null)
+    check('The same non-Latin quote is an exact duplicate', index.findMatch('знание, сила')?.quote.id === '1')
+    const near = index.findMatch('Тише едешь, дальше будешь, поспешишь — людей насмешишь')
+    check('A near-duplicate is found', near?.quote.id === '2' && !near.exact, JSON.stringify(near))
+  })
+
+  await scenario('Saving duplicates', () => {
+    // allowSimilar is a confirmed POST /api/quotes, or an import with skipDuplicates off
+    check('Exact duplicates block even when similar quotes are allowed', isBlockingDuplicate({ exact: true }, true))
+    check('Near-duplicates pass when similar quotes are allowed', !isBlockingDuplicate({ exact: false }, true))
+    check('Near-duplicates block otherwise', isBlockingDuplicate({ exact: false }, false))
+    check('No match never blocks', !isBlockingDuplicate(null, false))
+  })
+
+  finish('duplicate detection')
+}
+
+main()
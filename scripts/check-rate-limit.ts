@@ -0,0 +1,104 @@
+/**
+ * Harness for the in-memory rate limiter and the login lockout schedule.
+ * Drives fixed windows with short real timeouts, checks that limits trip at
+ * the right count with a sensible Retry-After, that the client IP is read from
+ * the trusted end of X-Forwarded-For, and that lockouts double from one minute
+ * up to the one-hour cap.
+ *
+ * Usage:
+ *   npm run ratelimit:check
+ *
+ * Uses the memory store only, so no database is needed. The Postgres store
+ * runs the same statement shape in one upsert and isn't exercised here.
+ * Exits non-zero when any check fails.
+ */
+
+import { checkLoginAllowed, LOCKOUT_THRESHOLD, lockoutDuration } from '../lib/login-throttle'
+import { clientIp, enforceRateLimit, RATE_LIMITS, RateLimitError, rateLimitStore } from '../lib/rate-limit'
+import { check, finish, scenario } from './harness'
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise
+    return null
+  } catch (error) {
+    return error
+  }
+}
+
+async function main() {
+  process.env.RATE_LIMIT_STORE = 'memory'
+  console.log('🚦 Rate limit check')
+  const store = rateLimitStore()
+
+  await scenario('Fixed windows', async () => {
+    const counts = []
+    for (let i = 0; i < 3; i++) counts.push((await store.increment('window', 100)).count)
+    check('Hits in one window count up', counts.join() === '1,2,3', counts.join())
+
+    await sleep(120)
+    check('An ended window reads as empty', (await store.get('window')) === null)
+    check('The next hit starts again from one', (await store.increment('window', 100)).count === 1)
+
+    await store.reset('window')
+    check('Reset clears the counter', (await store.get('window')) === null)
+  })
+
+  await scenario('enforceRateLimit', async () => {
+    const rule = { limit: 3, windowMs: 10_000 }
+    const outcomes = []
+    for (let i = 0; i < rule.limit; i++) outcomes.push(await rejection(enforceRateLimit(rule, 'enforce')))
+    check('Hits up to the limit pass', outcomes.every(outcome => outcome === null), outcomes.map(String).join())
+    check('Each passing hit is counted', (await store.get('enforce'))?.count === rule.limit, String((await store.get('enforce'))?.count))
+
+    const error = await rejection(enforceRateLimit(rule, 'enforce'))
+    check('The next hit throws RateLimitError', error instanceof RateLimitError)
+    const retryAfter = error instanceof RateLimitError ? error.retryAfter : -1
+    check('Retry-After is the rest of the window', retryAfter > 0 && retryAfter <= 10, String(retryAfter))
+    check('Other keys are unaffected', (await rejection(enforceRateLimit(rule, 'enforce-other'))) === null)
+  })
+
+  await scenario('Login attempts per IP', async () => {
+    const ip = '203.0.113.7'
+    let allowed = 0
+    for (let i = 0; i < RATE_LIMITS.login.limit; i++) {
+      if ((await checkLoginAllowed(ip, `user${i}@example.com`)).allowed) allowed++
+    }
+    check(`The first ${RATE_LIMITS.login.limit} attempts are let through`, allowed === RATE_LIMITS.login.limit, String(allowed))
+
+    const blocked = await checkLoginAllowed(ip, 'someone@example.com')
+    check('Spreading guesses over emails still hits the IP limit', !blocked.allowed && blocked.reason === 'rate_limited')
+    check('Another IP can still sign in', (await checkLoginAllowed('198.51.100.1', 'someone@example.com')).allowed)
+  })
+
+  await scenario('Client IP', async () => {
+    const request = (forwarded: string) => new Request('http://localhost/', { headers: { 'x-forwarded-for': forwarded } })
+
+    process.env.TRUSTED_PROXY_HOPS = '1'
+    check('One proxy: the entry it appended is used', clientIp(request('198.51.100.9')) === '198.51.100.9')
+    check(
+      'Entries a client prepends are ignored',
+      clientIp(request('1.2.3.4, 198.51.100.9')) === '198.51.100.9',
+      clientIp(request('1.2.3.4, 198.51.100.9'))
+    )
+
+    process.env.TRUSTED_PROXY_HOPS = '2'
+    check('Two proxies: the entry before the last one is used', clientIp(request('1.2.3.4, 198.51.100.9, 10.0.0.2')) === '198.51.100.9')
+
+    process.env.TRUSTED_PROXY_HOPS = '0'
+    check('No proxies: the header is ignored', clientIp(request('198.51.100.9')) === 'unknown')
+    delete process.env.TRUSTED_PROXY_HOPS
+  })
+
+  await scenario('Lockout schedule', async () => {
+    const minutes = [0, 1, 2, 3, 4, 5, 6, 7].map(extra => lockoutDuration(LOCKOUT_THRESHOLD + extra) / 60_000)
+    check('Lockouts start at one minute and double', minutes.slice(0, 6).join() === '1,2,4,8,16,32', minutes.join())
+    check('Lockouts stop at one hour', minutes.slice(6).every(value => value === 60), minutes.join())
+  })
+
+  finish('rate limit')
+}
+
+main()
@@ -0,0 +1,175 @@
+/**
+ * Deterministic harness for the rotation engine's queue. Plays scripted
+ * scenarios through the reducer (batches arriving late, twice, or not at all;
+ * small pools; strategy switches) and checks the state after each one.
+ *
+ * Usage:
+ *   npm run rotation:check
+ *
+ * No database, network or browser needed. Exits non-zero when any check fails.
+ */
+
+import {
+  initialRotationState,
+  needsBatch,
+  rotationReducer,
+  type RotationAction,
+  type RotationBatch,
+  type RotationQuote,
+  type RotationState
+} from '../lib/rotation-engine'
+import { check, finish, scenario } from './harness'
+
+const PREFETCH_THRESHOLD = 3
+
+function quote(id: string): RotationQuote {
+  return {
+    id,
+    text: `Quote ${id}`,
+    author: 'Anonymous',
+    isPreloaded: true,
+    isFavorited: false,
+    createdAt: '2024-01-01T00:00:00.000Z'
+  }
+}
+
+function batch(ids: string[], overrides: Partial<RotationBatch> = {}): RotationBatch {
+  return { quotes: ids.map(quote), cursor: `after-${ids.at(-1)}`, total: 100, hasMore: true, ...overrides }
+}
+
+function run(state: RotationState, ...actions: RotationAction[]): RotationState {
+  return actions.reduce(rotationReducer, state)
+}
+
+// Request and receive one batch, the way hooks/use-rotation.ts does
+function load(state: RotationState, loaded: RotationBatch): RotationState {
+  const requested = run(state, { type: 'request', requestId: state.requestId })
+  return run(requested, { type: 'loaded', requestId: requested.requestId, batch: loaded })
+}
+
+function started(): RotationState {
+  return run(initialRotationState, { type: 'start', strategy: 'SHUFFLE' })
+}
+
+function ids(state: RotationState): string {
+  return [state.current?.id ?? '-', ...state.queue.map(q => q.id)].join(',')
+}
+
+async function main() {
+  console.log('🔁 Rotation engine check')
+
+  await scenario('First batch', () => {
+    const initial = started()
+    check('Nothing is fetched before a strategy is chosen', !needsBatch(initialRotationState, PREFETCH_THRESHOLD))
+    check('A started engine wants a batch', needsBatch(initial, PREFETCH_THRESHOLD))
+
+    const state = load(initial, batch(['a', 'b', 'c', 'd', 'e']))
+    check('First quote goes on screen, the rest are queued', ids(state) === 'a,b,c,d,e', ids(state))
+    check('Counts the quote on screen as shown', state.shown === 1, String(state.shown))
+    check('Keeps the cursor for the next request', state.cursor === 'after-e', String(state.cursor))
+    check('No prefetch while the queue is above the threshold', !needsBatch(state, PREFETCH_THRESHOLD))
+
+    const advanced = run(state, { type: 'next' })
+    check('Prefetches once the queue reaches the threshold', needsBatch(advanced, PREFETCH_THRESHOLD))
+  })
+
+  await scenario('Late and repeated responses', () => {
+    const initial = started()
+    const requested = run(initial, { type: 'request', requestId: initial.requestId })
+    const duplicateRequest = run(requested, { type: 'request', requestId: initial.requestId })
+    check('A second request for the same state is ignored', duplicateRequest === requested)
+
+    const loaded = run(requested, { type: 'loaded', requestId: requested.requestId, batch: batch(['a', 'b']) })
+    const twice = run(loaded, { type: 'loaded', requestId: requested.requestId, batch: batch(['c', 'd']) })
+    check('A response is applied only once', twice === loaded, ids(twice))
+
+    const reset = run(requested, { type: 'reset' })
+    const stale = run(reset, { type: 'loaded', requestId: requested.requestId, batch: batch(['x']) })
+    check('A response requested before a reset is dropped', stale.current === null && stale.queue.length === 0, ids(stale))
+    check('A reset asks for a fresh order', stale.restart)
+
+    const fresh = load(stale, batch(['y']))
+    check('The fresh order is loaded afterwards', ids(fresh) === 'y', ids(fresh))
+    check('Only the first request after a reset restarts', !fresh.restart)
+  })
+
+  await scenario('Next before the batch arrives', () => {
+    const state = load(started(), batch(['a']))
+    const waiting = run(state, { type: 'next' })
+    check('Waits on the current quote', waiting.current?.id === 'a' && waiting.advancePending)
+
+    const arrived = load(waiting, batch(['b', 'c']))
+    check('Shows the next quote when the batch lands', ids(arrived) === 'b,c', ids(arrived))
+    check('Stops waiting', !arrived.advancePending)
+  })
+
+  await scenario('Small pools', () => {
+    const state = load(started(), batch(['a', 'b'], { total: 2 }))
+    const repeated = load(state, batch(['a', 'b'], { total: 2 }))
+    check('A batch with nothing new pauses prefetching', repeated.status === 'paused' && !needsBatch(repeated, PREFETCH_THRESHOLD))
+    check('Quotes on screen or queued are not queued again', ids(repeated) === 'a,b', ids(repeated))
+
+    const advanced = run(repeated, { type: 'next' })
+    check('Moving on resumes prefetching', advanced.status === 'idle' && needsBatch(advanced, PREFETCH_THRESHOLD))
+  })
+
+  await scenario('Exhausted strategies', () => {
+    const daily = run(initialRotationState, { type: 'start', strategy: 'DAILY' })
+    const state = load(daily, batch(['today'], { total: 1, hasMore: false }))
+    check('Nothing more is requested', state.status === 'exhausted' && !needsBatch(state, PREFETCH_THRESHOLD))
+
+    const next = run(state, { type: 'next' })
+    check('Next keeps the quote on screen', next === state)
+
+    const empty = load(started(), batch([], { total: 0, hasMore: false }))
+    check('An empty pool ends with nothing on screen', empty.current === null && empty.status === 'exhausted')
+  })
+
+  await scenario('Failures', () => {
+    const initial = started()
+    const requested = run(initial, { type: 'request', requestId: initial.requestId })
+    const failed = run(requested, { type: 'failed', requestId: requested.requestId })
+    check('A failed request stops prefetching', failed.status === 'error' && !needsBatch(failed, PREFETCH_THRESHOLD))
+
+    const retried = run(failed, { type: 'next' })
+    check('Next retries', retried.status === 'idle' && needsBatch(retried, PREFETCH_THRESHOLD))
+  })
+
+  await scenario('Editing quotes in rotation', () => {
+    const state = load(started(), batch(['a', 'b', 'c']))
+
+    const favorited = run(state, { type: 'update', quote: { id: 'a', isFavorited: true } })
+    check('Updates the quote on screen', favorited.current?.isFavorited === true)
+
+    const queued = run(state, { type: 'update', quote: { id: 'c', text: 'Edited' } })
+    check('Updates queued quotes', queued.queue.find(q => q.id === 'c')?.text === 'Edited')
+
+    const removed = run(state, { type: 'remove', id: 'a' })
+    check('Removing the quote on screen shows the next one', ids(removed) === 'b,c', ids(removed))
+
+    const removedQueued = run(state, { type: 'remove', id: 'c' })
+    check('Removing a queued quote leaves the screen alone', ids(removedQueued) === 'a,b', ids(removedQueued))
+
+    const last = run(load(started(), batch(['a'])), { type: 'remove', id: 'a' })
+    check('Removing the last quote waits for the next batch', last.current === null && last.advancePending)
+
+    const shown = run(state, { type: 'show', quote: quote('search') })
+    check('Shows a picked quote without losing the queue', ids(shown) === 'search,b,c', ids(shown))
+  })
+
+  await scenario('Switching strategy', () => {
+    const state = load(started(), batch(['a', 'b']))
+    check('Starting the same strategy again keeps the queue', run(state, { type: 'start', strategy: 'SHUFFLE' }) === state)
+
+    const switched = run(state, { type: 'start', strategy: 'RANDOM' })
+    check('A new strategy starts over', switched.strategy === 'RANDOM' && switched.current === null && switched.queue.length === 0)
+    check('A new strategy resumes rather than restarts', !switched.restart)
+
+    const stale = run(switched, { type: 'loaded', requestId: state.requestId, batch: batch(['x']) })
+    check('Responses for the old strategy are dropped', stale === switched)
+  })
+
+  finish('rotation engine')
+}
+
+main()
@@ -0,0 +1,209 @@
+/**
+ * Deterministic harness for the weighted rotation sampler. Runs a seeded
+ * simulation over a synthetic pool and checks that first picks land in each
+ * group of quotes as often as their weights say they should, both for the
+ * full weighted shuffle and for the exception/pool split used to sample
+ * large scopes (lib/quote-sampler.ts). Then draws many pool samples by
+ * sequence number from a table with gaps and checks that every pool member
+ * comes up equally often (chi-square).
+ *
+ * Usage:
+ *   npm run rotation:check                  # default boosts, seed 42
+ *   npm run rotation:check -- --seed 7      # different (still reproducible) run
+ *   npm run rotation:check -- --trials 50000
+ *
+ * No database needed. Exits non-zero when any check fails.
+ */
+
+import {
+  DEFAULT_ROTATION_WEIGHTS,
+  planWeightedDraws,
+  rotationWeight,
+  sampleBySequence,
+  seededRandom,
+  weightedShuffle,
+  type RotationFlags,
+  type RotationWeights
+} from '../lib/weighted-rotation'
+import { check, finish } from './harness'
+
+interface PoolGroup {
+  name: string
+  size: number
+  flags: RotationFlags
+}
+
+interface PoolItem {
+  id: string
+  group: string
+  flags: RotationFlags
+}
+
+// Roughly the shape of a real pool: mostly plain quotes, some boosted
+const GROUPS: PoolGroup[] = [
+  { name: 'plain', size: 150, flags: { isFavorite: false, isNew: false, isUnseen: false } },
+  { name: 'unseen', size: 80, flags: { isFavorite: false, isNew: false, isUnseen: true } },
+  { name: 'favorite', size: 40, flags: { isFavorite: true, isNew: false, isUnseen: false } },
+  { name: 'new', size: 20, flags: { isFavorite: false, isNew: true, isUnseen: true } },
+  { name: 'new favorite', size: 10, flags: { isFavorite: true, isNew: true, isUnseen: true } },
+]
+
+// The group that stands in for the large pool of baseline quotes when
+// sampling by exceptions: never viewed, not a favorite, not new
+const POOL_GROUP = 'unseen'
+
+// Allowed deviation from the expected share, in standard errors
+const TOLERANCE_SIGMAS = 4
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function buildPool(): PoolItem[] {
+  return GROUPS.flatMap(group =>
+    Array.from({ length: group.size }, (_, i) => ({
+      id: `${group.name}-${i}`,
+      group: group.name,
+      flags: group.flags
+    }))
+  )
+}
+
+type FirstPick = (pool: PoolItem[], weightOf: (item: PoolItem) => number, random: () => number) => string
+
+const shuffleFirstPick: FirstPick = (pool, weightOf, random) => weightedShuffle(pool, weightOf, random)[0].group
+
+// Only the exceptions are listed; the pool group is drawn by size and weight
+const plannedFirstPick: FirstPick = (pool, weightOf, random) => {
+  const exceptions = pool.filter(item => item.group !== POOL_GROUP)
+  const poolItems = pool.filter(item => item.group === POOL_GROUP)
+  const [first] = planWeightedDraws(exceptions, weightOf, poolItems.length, weightOf(poolItems[0]), 1, random)
+  return first ? first.group : POOL_GROUP
+}
+
+// Simulate first picks and compare each group's share with weight / total weight
+function checkFirstPicks(
+  label: string,
+  weights: RotationWeights,
+  seed: number,
+  trials: number,
+  firstPick: FirstPick = shuffleFirstPick
+) {
+  const pool = buildPool()
+  const random = seededRandom(seed)
+  const weightOf = (item: PoolItem) => rotationWeight(item.flags, weights)
+  const totalWeight = pool.reduce((sum, item) => sum + weightOf(item), 0)
+
+  const picks = new Map<string, number>()
+  for (let trial = 0; trial < trials; trial++) {
+    const group = firstPick(pool, weightOf, random)
+    picks.set(group, (picks.get(group) ?? 0) + 1)
+  }
+
+  console.log(`\n📊 ${label}`)
+  for (const group of GROUPS) {
+    const expected = (group.size * rotationWeight(group.flags, weights)) / totalWeight
+    const observed = (picks.get(group.name) ?? 0) / trials
+    const standardError = Math.sqrt((expected * (1 - expected)) / trials)
+    check(
+      `${group.name.padEnd(14)} expected ${(expected * 100).toFixed(2).padStart(6)}%` +
+      `  observed ${(observed * 100).toFixed(2).padStart(6)}%`,
+      Math.abs(observed - expected) <= TOLERANCE_SIGMAS * standardError
+    )
+  }
+}
+
+// Same seed, same order: rotation bugs must be reproducible
+function checkDeterminism(seed: number) {
+  const pool = buildPool()
+  const weightOf = (item: PoolItem) => rotationWeight(item.flags, DEFAULT_ROTATION_WEIGHTS)
+  const first = weightedShuffle(pool, weightOf, seededRandom(seed)).map(item => item.id)
+  const second = weightedShuffle(pool, weightOf, seededRandom(seed)).map(item => item.id)
+  check('Same seed gives the same order', first.join() === second.join())
+}
+
+// Every item is placed exactly once, whatever its weight
+function checkPermutation(seed: number) {
+  const pool = buildPool()
+  const weights = [0, -1, Number.NaN, undefined, 1, 10]
+  const shuffled = weightedShuffle(pool, item => weights[Number(item.id.split('-').pop()) % weights.length], seededRandom(seed))
+  check(
+    'Output is a permutation, including invalid weights',
+    shuffled.length === pool.length && new Set(shuffled.map(item => item.id)).size === pool.length
+  )
+}
+
+// Planned draws never repeat an item and stop when everything is drawn
+function checkPlannedDraws(seed: number) {
+  const items = ['a', 'b', 'c']
+  const draws = planWeightedDraws(items, () => 2, 4, 1, 10, seededRandom(seed))
+  const listed = draws.filter(draw => draw !== null)
+  check('Planned draws cover every item and pool slot once', draws.length === 7 && listed.length === 3 && new Set(listed).size === 3)
+}
+
+// Sample by sequence number from a synthetic table: about a third of the
+// numbers are deleted rows or outside the pool, in runs as well as singly
+async function checkSequenceUniformity(seed: number, trials: number) {
+  const maxSeq = 3000
+  const random = seededRandom(seed)
+  const members = new Map<number, string>()
+  for (let seq = 1; seq <= maxSeq; seq++) {
+    const inGap = seq % 500 < 120 || random() < 0.15
+    if (!inGap) members.set(seq, `quote-${seq}`)
+  }
+  const lookup = async (seqs: number[]) => seqs.flatMap(seq => members.get(seq) ?? [])
+
+  const sampleSize = 5
+  const hits = new Map<string, number>()
+  let complete = true
+  for (let trial = 0; trial < trials; trial++) {
+    const sample = await sampleBySequence(sampleSize, maxSeq, members.size / maxSeq, lookup, { random })
+    complete &&= sample.length === sampleSize && new Set(sample).size === sampleSize
+    sample.forEach(id => hits.set(id, (hits.get(id) ?? 0) + 1))
+  }
+
+  // Chi-square against equal counts; its mean is the degrees of freedom
+  const expected = (trials * sampleSize) / members.size
+  const chiSquare = [...members.values()].reduce((sum, id) => sum + ((hits.get(id) ?? 0) - expected) ** 2 / expected, 0)
+  const freedom = members.size - 1
+  const uniform = chiSquare <= freedom + TOLERANCE_SIGMAS * Math.sqrt(2 * freedom)
+  const counts = [...members.values()].map(id => hits.get(id) ?? 0)
+
+  console.log(`\n📊 Pool sample by sequence (${members.size} members in ${maxSeq} numbers)`)
+  check(`Every sample has ${sampleSize} distinct members`, complete)
+  check(
+    'Members come up equally often' +
+    ` (chi-square ${chiSquare.toFixed(0)} for ${freedom} degrees of freedom;` +
+    ` counts ${Math.min(...counts)}-${Math.max(...counts)}, expected ${expected.toFixed(0)})`,
+    uniform
+  )
+
+  // A tiny probe budget stops early instead of looping
+  const short = await sampleBySequence(50, maxSeq, 0.001, lookup, { maxProbes: 20, random })
+  check('Stops once the probe budget is spent', short.length <= 20, String(short.length))
+}
+
+async function main() {
+  const seed = parseInt(argValue('--seed') ?? '42')
+  const trials = parseInt(argValue('--trials') ?? '20000')
+
+  console.log(`🎲 Weighted rotation check (seed ${seed}, ${trials} trials)`)
+
+  checkFirstPicks('Default boosts', DEFAULT_ROTATION_WEIGHTS, seed, trials)
+  checkFirstPicks('Boosts off (uniform)', { favorite: 1, newQuote: 1, unseen: 1 }, seed + 1, trials)
+  checkFirstPicks('Strong favorites', { favorite: 10, newQuote: 1, unseen: 1.5 }, seed + 2, trials)
+  checkFirstPicks('Default boosts, sampled by exceptions', DEFAULT_ROTATION_WEIGHTS, seed + 3, trials, plannedFirstPick)
+  checkFirstPicks('Strong favorites, sampled by exceptions', { favorite: 10, newQuote: 1, unseen: 1.5 }, seed + 4, trials, plannedFirstPick)
+
+  console.log('\n📊 Order and draws')
+  checkDeterminism(seed)
+  checkPermutation(seed)
+  checkPlannedDraws(seed)
+
+  await checkSequenceUniformity(seed, trials)
+
+  finish('rotation')
+}
+
+main()
@@ -0,0 +1,27 @@
+/**
+ * Shared reporting for the check scripts in this folder. Each check prints
+ * one ✅/❌ line and counts towards the run's failures; `finish` prints the
+ * summary and exits non-zero when any check failed.
+ */
+
+let failures = 0
+
+export function check(label: string, ok: boolean, detail?: string): boolean {
+  if (!ok) failures++
+  console.log(`   ${ok ? '✅' : '❌'} ${label}${!ok && detail ? ` (got ${detail})` : ''}`)
+  return ok
+}
+
+export async function scenario(name: string, body: () => void | Promise<void>): Promise<void> {
+  console.log(`\n📋 ${name}`)
+  await body()
+}
+
+export function finish(subject: string) {
+  if (failures === 0) {
+    console.log(`\n✅ All ${subject} checks passed`)
+  } else {
+    console.error(`\n❌ ${failures} ${subject} check${failures === 1 ? '' : 's'} failed`)
+    process.exit(1)
+  }
+}
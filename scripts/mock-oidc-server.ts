@@ -0,0 +1,255 @@
+/**
+ * Local OpenID Connect provider for trying OAuth sign-in without a real
+ * identity provider. Serves discovery, an authorize page where you type the
+ * identity to sign in as (email, name, and whether the email counts as
+ * verified), the token and userinfo endpoints, and the JWKS for its RS256
+ * ID tokens. Keys, codes and tokens live in memory and vanish on exit.
+ *
+ * Usage:
+ *   npm run oidc:mock                    # http://localhost:9400
+ *   npm run oidc:mock -- --port 9500
+ *
+ * Then start the app with:
+ *   AUTH_OIDC_ISSUER=http://localhost:9400
+ *   AUTH_OIDC_ID=inspiro-local
+ *   AUTH_OIDC_SECRET=inspiro-local-secret
+ *
+ * The same email always gets the same `sub`, so signing in again reuses the
+ * linked account. Unchecking "verified" exercises the rule that unverified
+ * emails never link to an existing user.
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto'
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+
+const CLIENT_ID = 'inspiro-local'
+const CLIENT_SECRET = 'inspiro-local-secret'
+const TOKEN_TTL_SECONDS = 3600
+
+interface Identity {
+  email: string
+  name: string
+  emailVerified: boolean
+}
+
+interface PendingCode {
+  identity: Identity
+  redirectUri: string
+  nonce?: string
+  codeChallenge?: string
+  expiresAt: number
+}
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+const port = Number(argValue('--port') ?? 9400)
+const issuer = `http://localhost:${port}`
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const keyId = randomBytes(8).toString('hex')
+const codes = new Map<string, PendingCode>()
+const accessTokens = new Map<string, Identity>()
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+function signJwt(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: keyId }))
+  const payload = base64url(JSON.stringify(claims))
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey)
+  return `${header}.${payload}.${base64url(signature)}`
+}
+
+function subjectFor(email: string): string {
+  return createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24)
+}
+
+function userClaims({ email, name, emailVerified }: Identity) {
+  return { sub: subjectFor(email), email, email_verified: emailVerified, name }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  const isHtml = typeof body === 'string'
+  res.writeHead(status, {
+    'Content-Type': isHtml ? 'text/html; charset=utf-8' : 'application/json',
+    'Cache-Control': 'no-store',
+    ...headers
+  })
+  res.end(isHtml ? body : JSON.stringify(body))
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return new URLSearchParams(Buffer.concat(chunks).toString())
+}
+
+// client_secret_basic (Auth.js's default) or client_secret_post
+function clientAuthenticated(req: IncomingMessage, form: URLSearchParams): boolean {
+  const header = req.headers.authorization
+  if (header?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':').map(decodeURIComponent)
+    return id === CLIENT_ID && secret === CLIENT_SECRET
+  }
+  return form.get('client_id') === CLIENT_ID && form.get('client_secret') === CLIENT_SECRET
+}
+
+function authorizePage(params: URLSearchParams): string {
+  const hidden = [...params]
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('')
+  return `<!doctype html>
+<title>Mock OIDC sign-in</title>
+<form method="post" action="/authorize" style="font-family: sans-serif; max-width: 320px; margin: 4rem auto; display: grid; gap: .75rem">
+  <h1 style="font-size: 1.25rem">Mock OIDC sign-in</h1>
+  ${hidden}
+  <label>Email <input name="email" type="email" value="oidc-user@inspiro.local" required style="width: 100%"></label>
+  <label>Name <input name="name" value="OIDC User" style="width: 100%"></label>
+  <label><input name="email_verified" type="checkbox" checked> Email is verified</label>
+  <button type="submit">Sign in</button>
+</form>`
+}
+
+function handleAuthorize(params: URLSearchParams, res: ServerResponse) {
+  const redirectUri = params.get('redirect_uri')
+  if (params.get('client_id') !== CLIENT_ID || !redirectUri) {
+    return send(res, 400, { error: 'invalid_request' })
+  }
+  if (params.get('response_type') !== 'code') {
+    return send(res, 400, { error: 'unsupported_response_type' })
+  }
+  return send(res, 200, authorizePage(params))
+}
+
+function handleApprove(form: URLSearchParams, res: ServerResponse) {
+  const redirectUri = form.get('redirect_uri')
+  const email = form.get('email')?.trim()
+  if (form.get('client_id') !== CLIENT_ID || !redirectUri || !email) {
+    return send(res, 400, { error: 'invalid_request' })
+  }
+  if (form.get('code_challenge') && form.get('code_challenge_method') !== 'S256') {
+    return send(res, 400, { error: 'invalid_request', error_description: 'Only S256 PKCE is supported' })
+  }
+
+  const code = randomBytes(24).toString('base64url')
+  codes.set(code, {
+    identity: { email, name: form.get('name')?.trim() || email, emailVerified: form.has('email_verified') },
+    redirectUri,
+    nonce: form.get('nonce') ?? undefined,
+    codeChallenge: form.get('code_challenge') ?? undefined,
+    expiresAt: Date.now() + 60_000
+  })
+
+  const location = new URL(redirectUri)
+  location.searchParams.set('code', code)
+  const state = form.get('state')
+  if (state) location.searchParams.set('state', state)
+  return send(res, 302, '', { Location: location.toString() })
+}
+
+function handleToken(req: IncomingMessage, form: URLSearchParams, res: ServerResponse) {
+  if (!clientAuthenticated(req, form)) {
+    return send(res, 401, { error: 'invalid_client' })
+  }
+  if (form.get('grant_type') !== 'authorization_code') {
+    return send(res, 400, { error: 'unsupported_grant_type' })
+  }
+
+  const code = form.get('code') ?? ''
+  const pending = codes.get(code)
+  codes.delete(code) // Single use, even when the exchange fails
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== form.get('redirect_uri')) {
+    return send(res, 400, { error: 'invalid_grant' })
+  }
+  if (pending.codeChallenge) {
+    const verifier = form.get('code_verifier') ?? ''
+    if (createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge) {
+      return send(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' })
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const accessToken = randomBytes(24).toString('base64url')
+  accessTokens.set(accessToken, pending.identity)
+
+  return send(res, 200, {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL_SECONDS,
+    scope: 'openid email profile',
+    id_token: signJwt({
+      ...userClaims(pending.identity),
+      iss: issuer,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + TOKEN_TTL_SECONDS,
+      ...(pending.nonce && { nonce: pending.nonce })
+    })
+  })
+}
+
+function handleUserinfo(req: IncomingMessage, res: ServerResponse) {
+  const token = req.headers.authorization?.replace(/^Bearer /, '')
+  const identity = token ? accessTokens.get(token) : undefined
+  if (!identity) {
+    return send(res, 401, { error: 'invalid_token' })
+  }
+  return send(res, 200, userClaims(identity))
+}
+
+const server = createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url ?? '/', issuer)
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return send(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        scopes_supported: ['openid', 'email', 'profile'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+        code_challenge_methods_supported: ['S256'],
+        claims_supported: ['sub', 'email', 'email_verified', 'name']
+      })
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return send(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, alg: 'RS256', use: 'sig' }] })
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      return handleAuthorize(url.searchParams, res)
+    }
+    if (req.method === 'POST' && url.pathname === '/authorize') {
+      return handleApprove(await readForm(req), res)
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return handleToken(req, await readForm(req), res)
+    }
+    if (req.method === 'GET' && url.pathname === '/userinfo') {
+      return handleUserinfo(req, res)
+    }
+    return send(res, 404, { error: 'not_found' })
+  } catch (error) {
+    console.error('Mock OIDC error:', error)
+    return send(res, 500, { error: 'server_error' })
+  }
+})
+
+server.listen(port, () => {
+  console.log(`Mock OIDC provider on ${issuer}`)
+  console.log(`  AUTH_OIDC_ISSUER=${issuer}`)
+  console.log(`  AUTH_OIDC_ID=${CLIENT_ID}`)
+  console.log(`  AUTH_OIDC_SECRET=${CLIENT_SECRET}`)
+})